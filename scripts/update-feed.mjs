@@ -0,0 +1,52 @@
+/**
+ * Local update feed - Generates fixture release metadata and serves it over HTTP
+ *
+ * Usage:
+ *   npm run update-feed -- [--version 9.9.9] [--channel latest] [--port 8080]
+ *                          [--dir <path>] [--tampered] [--no-serve]
+ *
+ * Start the app with AUTOVID_UPDATE_FEED set to the printed URL (or to the
+ * printed directory) to run check → download → verify → install-ready with no
+ * network. --tampered publishes a sha512 that does not match the artifact, so
+ * the download is rejected during checksum verification.
+ *
+ * Without --dir the feed goes into a new temporary directory; an existing
+ * --dir must be empty, since nothing in it is ever deleted.
+ *
+ * Runs through vite-node so it can share the app's feed server and fixtures.
+ */
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseArgs } from 'util'
+import { serveUpdateDirectory } from '../src/main/updateFeed'
+import { writeUpdateFeed } from '../src/main/updateFeedFixture'
+
+const { values: options } = parseArgs({
+  options: {
+    version: { type: 'string', default: '9.9.9' },
+    channel: { type: 'string', default: 'latest' },
+    port: { type: 'string', default: '8080' },
+    dir: { type: 'string' },
+    tampered: { type: 'boolean', default: false },
+    'no-serve': { type: 'boolean', default: false }
+  }
+})
+
+const directory = options.dir ?? mkdtempSync(join(tmpdir(), 'autovid-update-feed-'))
+
+try {
+  writeUpdateFeed(directory, options)
+} catch (err) {
+  console.error(err.message)
+  process.exit(1)
+}
+console.log(
+  `Wrote ${options.tampered ? 'tampered ' : ''}${options.channel} feed for v${options.version} to ${directory}`
+)
+
+if (!options['no-serve']) {
+  const { url } = await serveUpdateDirectory(directory, Number(options.port))
+  console.log(`Serving update feed at ${url} (Ctrl+C to stop)`)
+  console.log(`Run the app with: AUTOVID_UPDATE_FEED=${url} npm run dev`)
+}
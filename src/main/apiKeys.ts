@@ -0,0 +1,219 @@
+/**
+ * API keys - Provider credentials encrypted with safeStorage in userData
+ *
+ * Decrypted keys never leave the main process: the HTTP gateway adds them to
+ * requests that name a credential, and the renderer only sees which
+ * providers are configured.
+ */
+import { app, ipcMain, net, safeStorage } from 'electron'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type {
+  ApiCredentials,
+  ApiKeyStatus,
+  ApiProvider,
+  ConnectionTarget,
+  ConnectionTestResult
+} from '../preload/index.d'
+
+const TTS_BASE_URL = 'https://ttsfm.cohook.com'
+
+type StoredCredentials = Partial<Record<ApiProvider, string>>
+
+let cachedCredentials: Partial<ApiCredentials> | null = null
+
+function getCredentialsPath(): string {
+  return join(app.getPath('userData'), 'credentials.json')
+}
+
+function readStoredCredentials(): StoredCredentials {
+  const credentialsPath = getCredentialsPath()
+  if (!existsSync(credentialsPath)) return {}
+  try {
+    return JSON.parse(readFileSync(credentialsPath, 'utf-8'))
+  } catch (error) {
+    console.error('Failed to read credentials:', error)
+    return {}
+  }
+}
+
+function loadCredentials(): Partial<ApiCredentials> {
+  if (cachedCredentials) return cachedCredentials
+
+  cachedCredentials = {}
+  if (!safeStorage.isEncryptionAvailable()) return cachedCredentials
+
+  for (const [provider, encrypted] of Object.entries(readStoredCredentials())) {
+    try {
+      const decrypted = safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+      cachedCredentials[provider as ApiProvider] = JSON.parse(decrypted)
+    } catch (error) {
+      // Keys encrypted under another OS account or keyring can't be read back
+      console.error(`Failed to decrypt ${provider} credentials:`, error)
+    }
+  }
+  return cachedCredentials
+}
+
+/**
+ * Replace or remove one provider's entry. The others are kept as stored, so
+ * keys this session could not decrypt are not lost
+ */
+function saveCredentials<P extends ApiProvider>(
+  provider: P,
+  credentials: ApiCredentials[P] | null
+): void {
+  const stored = readStoredCredentials()
+  const cached = { ...loadCredentials() }
+  if (credentials) {
+    stored[provider] = safeStorage.encryptString(JSON.stringify(credentials)).toString('base64')
+    cached[provider] = credentials
+  } else {
+    delete stored[provider]
+    delete cached[provider]
+  }
+  writeFileSync(getCredentialsPath(), JSON.stringify(stored, null, 2))
+  cachedCredentials = cached
+}
+
+export function getCredentials<P extends ApiProvider>(provider: P): ApiCredentials[P] | null {
+  return loadCredentials()[provider] ?? null
+}
+
+/**
+ * Headers that authenticate a request to the given provider
+ */
+export function getAuthHeaders(provider: ApiProvider): Record<string, string> {
+  switch (provider) {
+    case 'gemini': {
+      const credentials = getCredentials('gemini')
+      if (!credentials) throw new Error('Gemini API key is not configured')
+      return { 'x-goog-api-key': credentials.apiKey }
+    }
+    case 'cloudflare': {
+      const credentials = getCredentials('cloudflare')
+      if (!credentials) throw new Error('Cloudflare credentials are not configured')
+      return { Authorization: `Bearer ${credentials.apiToken}` }
+    }
+  }
+}
+
+// Last characters only, so Settings can show which key is stored
+function getHint(secret: string): string {
+  return secret.length > 8 ? `…${secret.slice(-4)}` : '…'
+}
+
+export function getApiKeyStatus(): ApiKeyStatus {
+  const gemini = getCredentials('gemini')
+  const cloudflare = getCredentials('cloudflare')
+  return {
+    encryptionAvailable: safeStorage.isEncryptionAvailable(),
+    gemini: { configured: !!gemini, hint: gemini ? getHint(gemini.apiKey) : null },
+    cloudflare: {
+      configured: !!cloudflare,
+      hint: cloudflare ? getHint(cloudflare.apiToken) : null,
+      accountId: cloudflare?.accountId ?? null
+    }
+  }
+}
+
+function validateCredentials<P extends ApiProvider>(
+  provider: P,
+  credentials: ApiCredentials[P]
+): ApiCredentials[P] {
+  const trimmed = Object.fromEntries(
+    Object.entries(credentials).map(([key, value]) => [key, String(value ?? '').trim()])
+  ) as ApiCredentials[P]
+  const missing = Object.entries(trimmed).find(([, value]) => !value)
+  if (missing) {
+    throw new Error(`Missing ${missing[0]} for ${provider}`)
+  }
+  return trimmed
+}
+
+export function setCredentials<P extends ApiProvider>(
+  provider: P,
+  credentials: ApiCredentials[P]
+): ApiKeyStatus {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Secure storage is not available on this system, so keys cannot be saved')
+  }
+  saveCredentials(provider, validateCredentials(provider, credentials))
+  return getApiKeyStatus()
+}
+
+export function clearCredentials(provider: ApiProvider): ApiKeyStatus {
+  saveCredentials(provider, null)
+  return getApiKeyStatus()
+}
+
+async function describeFailure(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '')
+  try {
+    const data = JSON.parse(text)
+    const message = data.error?.message ?? data.errors?.[0]?.message
+    if (message) return `${response.status}: ${message}`
+  } catch {
+    // Not JSON, fall back to the status line
+  }
+  return `${response.status} ${response.statusText}`.trim()
+}
+
+/**
+ * Make the smallest real request each provider accepts with the stored keys
+ */
+export async function testConnection(target: ConnectionTarget): Promise<ConnectionTestResult> {
+  try {
+    switch (target) {
+      case 'gemini': {
+        const response = await net.fetch(
+          'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1',
+          { headers: getAuthHeaders('gemini') }
+        )
+        return response.ok
+          ? { ok: true, message: 'API key accepted' }
+          : { ok: false, message: await describeFailure(response) }
+      }
+      case 'cloudflare': {
+        const { accountId } = getCredentials('cloudflare') ?? {}
+        const response = await net.fetch(
+          `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/models/search?per_page=1`,
+          { headers: getAuthHeaders('cloudflare') }
+        )
+        return response.ok
+          ? { ok: true, message: 'Token can use Workers AI on this account' }
+          : { ok: false, message: await describeFailure(response) }
+      }
+      case 'tts': {
+        const response = await net.fetch(`${TTS_BASE_URL}/v1/audio/speech`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: 'tts-1', input: 'Test', voice: 'nova' })
+        })
+        return response.ok
+          ? { ok: true, message: 'Speech service is responding' }
+          : { ok: false, message: await describeFailure(response) }
+      }
+    }
+  } catch (error) {
+    return { ok: false, message: (error as Error).message }
+  }
+}
+
+export function setupApiKeys(): void {
+  ipcMain.handle('get-api-key-status', () => getApiKeyStatus())
+
+  ipcMain.handle(
+    'set-api-credentials',
+    (_event, provider: ApiProvider, credentials: ApiCredentials[ApiProvider]) =>
+      setCredentials(provider, credentials)
+  )
+
+  ipcMain.handle('clear-api-credentials', (_event, provider: ApiProvider) =>
+    clearCredentials(provider)
+  )
+
+  ipcMain.handle('test-api-connection', (_event, target: ConnectionTarget) =>
+    testConnection(target)
+  )
+}
@@ -0,0 +1,309 @@
+/**
+ * Automation API - Opt-in localhost HTTP API for queuing and monitoring renders
+ *
+ * Only listens on 127.0.0.1 and every request needs the bearer token shown in
+ * Settings. The project store lives in the renderer, so each call is forwarded
+ * there as an AutomationCommand and answered with the same store actions the
+ * dashboard uses; artifact files are then streamed from the project folder.
+ *
+ *   GET  /api/projects                        list projects
+ *   POST /api/projects                        create one, `"start": true` runs it
+ *   GET  /api/projects/:id                    status and progress
+ *   POST /api/projects/:id/start              run the pipeline
+ *   GET  /api/projects/:id/artifacts/:kind    script, captions, audio or video
+ */
+import { BrowserWindow, ipcMain } from 'electron'
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { createReadStream, existsSync } from 'fs'
+import { stat } from 'fs/promises'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { getAssetPath, parseAssetUrl } from './projectAssets'
+import { parseProjectSpec, ProjectSpecError } from './projectSpec'
+import { getSettings, updateSettings } from './settings'
+import type {
+  AutomationArtifact,
+  AutomationArtifactData,
+  AutomationCommand,
+  AutomationResult,
+  AutomationStatus,
+  ProjectSpec
+} from '../preload/index.d'
+
+const HOST = '127.0.0.1'
+const MAX_BODY_BYTES = 64 * 1024
+// The renderer answers from memory, so this only trips when it is stuck or reloading
+const COMMAND_TIMEOUT_MS = 15000
+
+const ARTIFACTS: AutomationArtifact[] = ['script', 'captions', 'audio', 'video']
+
+let server: Server | null = null
+let listenError: string | null = null
+
+const pendingCommands = new Map<string, (result: AutomationResult) => void>()
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+function getStatus(): AutomationStatus {
+  const settings = getSettings().automation
+  return {
+    ...settings,
+    url: `http://${HOST}:${settings.port}/api`,
+    listening: !!server?.listening,
+    error: listenError
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, data: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  response.end(JSON.stringify(data))
+}
+
+function isAuthorized(request: IncomingMessage): boolean {
+  const { token } = getSettings().automation
+  const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '')
+  if (!token || !match) return false
+
+  const expected = Buffer.from(token)
+  const given = Buffer.from(match[1])
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+// Rejects DNS-rebinding pages, which reach 127.0.0.1 under a hostname of their own
+function isLocalHost(request: IncomingMessage): boolean {
+  const { port } = getSettings().automation
+  return [`${HOST}:${port}`, `localhost:${port}`].includes(request.headers.host ?? '')
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large')
+    chunks.push(chunk)
+  }
+  if (!chunks.length) return {}
+
+  let body: unknown
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON')
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object')
+  }
+  return body as Record<string, unknown>
+}
+
+/**
+ * Run a command against the renderer's project store
+ */
+function sendCommand(command: AutomationCommand): Promise<unknown> {
+  const window = BrowserWindow.getAllWindows()[0]
+  if (!window || window.webContents.isLoading()) {
+    return Promise.reject(new HttpError(503, 'AutoVid is not ready yet'))
+  }
+
+  const requestId = randomUUID()
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingCommands.delete(requestId)
+      reject(new HttpError(504, 'AutoVid did not respond in time'))
+    }, COMMAND_TIMEOUT_MS)
+
+    pendingCommands.set(requestId, (result) => {
+      clearTimeout(timeout)
+      pendingCommands.delete(requestId)
+      if (result.ok) resolve(result.data)
+      else reject(new HttpError(result.status, result.error))
+    })
+    window.webContents.send('automation-command', requestId, command)
+  })
+}
+
+async function sendArtifact(
+  response: ServerResponse,
+  projectId: string,
+  artifact: AutomationArtifact
+): Promise<void> {
+  const data = (await sendCommand({
+    type: 'get-artifact',
+    projectId,
+    artifact
+  })) as AutomationArtifactData
+
+  if (data.type === 'text') {
+    response.writeHead(200, { 'Content-Type': data.contentType })
+    response.end(data.text)
+    return
+  }
+
+  const asset = parseAssetUrl(data.url)
+  const filePath = asset ? getAssetPath(asset.projectId, asset.name) : null
+  if (!filePath || !existsSync(filePath)) {
+    throw new HttpError(404, `The ${artifact} file is missing from the project folder`)
+  }
+
+  response.writeHead(200, {
+    'Content-Type': data.contentType,
+    'Content-Length': (await stat(filePath)).size
+  })
+  createReadStream(filePath).pipe(response)
+}
+
+async function route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const { pathname } = new URL(request.url ?? '/', `http://${HOST}`)
+  let segments: string[]
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    throw new HttpError(400, 'Malformed percent-encoding in the path')
+  }
+  if (segments[0] !== 'api' || segments[1] !== 'projects') {
+    throw new HttpError(404, 'Not found')
+  }
+
+  const [, , projectId, action, artifact] = segments
+  const method = request.method ?? 'GET'
+
+  if (!projectId) {
+    if (method === 'GET') {
+      sendJson(response, 200, await sendCommand({ type: 'list-projects' }))
+      return
+    }
+    if (method === 'POST') {
+      const { start, ...options } = await readJsonBody(request)
+      if (start !== undefined && typeof start !== 'boolean') {
+        throw new HttpError(400, 'start must be true or false')
+      }
+      let spec: ProjectSpec
+      try {
+        spec = parseProjectSpec(options)
+      } catch (error) {
+        if (error instanceof ProjectSpecError) throw new HttpError(400, error.message)
+        throw error
+      }
+      sendJson(response, 201, await sendCommand({ type: 'create-project', spec, start: !!start }))
+      return
+    }
+  } else if (!action) {
+    if (method === 'GET') {
+      sendJson(response, 200, await sendCommand({ type: 'get-project', projectId }))
+      return
+    }
+  } else if (action === 'start' && !artifact) {
+    if (method === 'POST') {
+      sendJson(response, 202, await sendCommand({ type: 'start-project', projectId }))
+      return
+    }
+  } else if (action === 'artifacts' && artifact) {
+    if (!ARTIFACTS.includes(artifact as AutomationArtifact)) {
+      throw new HttpError(404, `Unknown artifact, expected one of ${ARTIFACTS.join(', ')}`)
+    }
+    if (method === 'GET') {
+      await sendArtifact(response, projectId, artifact as AutomationArtifact)
+      return
+    }
+  } else {
+    throw new HttpError(404, 'Not found')
+  }
+  throw new HttpError(405, `${method} is not supported here`)
+}
+
+async function handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  try {
+    if (!isLocalHost(request)) throw new HttpError(403, 'Forbidden')
+    if (!isAuthorized(request)) throw new HttpError(401, 'Missing or invalid token')
+    await route(request, response)
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500
+    if (status === 500) console.error('Automation API error:', error)
+    if (response.headersSent) {
+      response.destroy()
+    } else {
+      sendJson(response, status, { error: (error as Error).message })
+    }
+  }
+}
+
+function stopServer(): Promise<void> {
+  const current = server
+  server = null
+  if (!current) return Promise.resolve()
+  return new Promise((resolve) => {
+    current.close(() => resolve())
+    current.closeAllConnections()
+  })
+}
+
+/**
+ * Start or stop listening to match the saved settings
+ */
+async function applyAutomationSettings(): Promise<void> {
+  await stopServer()
+  listenError = null
+
+  const { enabled, port, token } = getSettings().automation
+  if (!enabled || !token) return
+
+  const next = createServer((request, response) => {
+    handleRequest(request, response)
+  })
+  await new Promise<void>((resolve) => {
+    next.once('error', (error) => {
+      listenError = error.message
+      console.error('Automation API failed to start:', error)
+      resolve()
+    })
+    next.listen(port, HOST, () => {
+      server = next
+      resolve()
+    })
+  })
+}
+
+function generateToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+export function setupAutomationApi(): void {
+  ipcMain.on('automation-response', (_event, requestId: string, result: AutomationResult) => {
+    pendingCommands.get(requestId)?.(result)
+  })
+
+  ipcMain.handle('get-automation-status', () => getStatus())
+
+  ipcMain.handle('set-automation-enabled', async (_event, enabled: boolean) => {
+    const { token } = getSettings().automation
+    // The first time it is turned on is when a token is needed
+    updateSettings('automation', { enabled, token: token ?? generateToken() })
+    await applyAutomationSettings()
+    return getStatus()
+  })
+
+  ipcMain.handle('set-automation-port', async (_event, port: number) => {
+    if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+      throw new Error('Port must be a whole number from 1024 to 65535')
+    }
+    updateSettings('automation', { port })
+    await applyAutomationSettings()
+    return getStatus()
+  })
+
+  ipcMain.handle('regenerate-automation-token', () => {
+    // Checked on every request, so the old token stops working straight away
+    updateSettings('automation', { token: generateToken() })
+    return getStatus()
+  })
+
+  applyAutomationSettings()
+}
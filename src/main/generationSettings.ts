@@ -0,0 +1,22 @@
+/**
+ * Generation Settings - Pipeline preferences that apply to every project
+ */
+import { ipcMain } from 'electron'
+import { getSettings, updateSettings } from './settings'
+
+const MAX_IMAGE_CONCURRENCY = 8
+
+export function setupGenerationSettings(): void {
+  ipcMain.handle('get-generation-settings', () => getSettings().generation)
+
+  ipcMain.handle('set-image-concurrency', (_event, imageConcurrency: number) => {
+    if (
+      !Number.isInteger(imageConcurrency) ||
+      imageConcurrency < 1 ||
+      imageConcurrency > MAX_IMAGE_CONCURRENCY
+    ) {
+      throw new Error(`Image concurrency must be a whole number from 1 to ${MAX_IMAGE_CONCURRENCY}`)
+    }
+    return updateSettings('generation', { imageConcurrency }).generation
+  })
+}
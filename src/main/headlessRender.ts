@@ -0,0 +1,197 @@
+/**
+ * Headless render - `autovid render --topic "..." --out video.webm` for scripted builds
+ *
+ * The job runs the editor's own pipeline in a hidden window with an in-memory
+ * session, so it never touches the projects of a running GUI instance. Every
+ * step is printed to stdout as one JSON line and the exit code reports the result.
+ */
+import { app, BrowserWindow, ipcMain, session } from 'electron'
+import { copyFile, rm } from 'fs/promises'
+import { join, resolve } from 'path'
+import { is } from '@electron-toolkit/utils'
+import {
+  ASSET_SCHEME,
+  getAssetPath,
+  getProjectDirectory,
+  handleAssetRequest,
+  parseAssetUrl
+} from './projectAssets'
+import { parseProjectSpec, ProjectSpecError } from './projectSpec'
+import type { RenderEvent, RenderJob } from '../preload/index.d'
+
+// No persist: prefix, so the hidden window's storage is thrown away on exit
+const HEADLESS_PARTITION = 'autovid-headless'
+
+const EXIT_FAILED = 1
+const EXIT_USAGE = 2
+
+const USAGE = `Usage: autovid render --topic "..." --out <file.webm> [options]
+
+Options:
+  --topic <text>       What the video is about (required)
+  --out <file>         Where to write the rendered video (required)
+  --name <text>        Project name, defaults to the topic
+  --scenes <1-300>     Number of scenes (default 10)
+  --duration <1-60>    Target length in minutes (default 5)
+  --aspect <ratio>     16:9, 9:16 or 1:1 (default 9:16)
+  --captions <style>   karaoke, word-by-word, sentence or minimal (default karaoke)
+  --voice <name>       alloy, echo, fable, onyx, nova or shimmer (default nova)
+  --speed <0.5-2>      Speaking rate (default 1)
+  --format <format>    Voice clip download format: mp3, wav, flac or opus (default mp3);
+                       the voiceover is always saved as WAV`
+
+export class RenderUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RenderUsageError'
+  }
+}
+
+function printEvent(event: Record<string, unknown>): void {
+  process.stdout.write(`${JSON.stringify(event)}\n`)
+}
+
+/**
+ * Command-line arguments after the executable, and after the app path in development
+ */
+function getCommandArgs(argv: string[]): string[] {
+  return argv.slice(app.isPackaged ? 1 : 2)
+}
+
+export function isRenderCommand(argv: string[]): boolean {
+  return getCommandArgs(argv)[0] === 'render'
+}
+
+function parseOptions(args: string[]): Map<string, string> {
+  const options = new Map<string, string>()
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (!arg.startsWith('--')) throw new RenderUsageError(`Unexpected argument: ${arg}`)
+
+    const [key, inline] = arg.slice(2).split(/=(.*)/s)
+    const value = inline ?? args[++i]
+    if (value === undefined) throw new RenderUsageError(`Missing value for --${key}`)
+    options.set(key, value)
+  }
+  return options
+}
+
+export function parseRenderJob(argv: string[]): RenderJob {
+  const options = parseOptions(getCommandArgs(argv).slice(1))
+  const { out, ...specOptions } = Object.fromEntries(options)
+  if (!out?.trim()) throw new RenderUsageError('--out is required')
+
+  try {
+    return { ...parseProjectSpec(specOptions), outputPath: resolve(out.trim()) }
+  } catch (error) {
+    throw error instanceof ProjectSpecError ? new RenderUsageError(`--${error.message}`) : error
+  }
+}
+
+function createRenderWindow(): BrowserWindow {
+  const window = new BrowserWindow({
+    width: 1280,
+    height: 800,
+    show: false,
+    webPreferences: {
+      preload: join(__dirname, '../preload/index.js'),
+      sandbox: false,
+      partition: HEADLESS_PARTITION,
+      // Composing draws on requestAnimationFrame, which hidden windows would throttle
+      backgroundThrottling: false
+    }
+  })
+
+  if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
+    window.loadURL(`${process.env['ELECTRON_RENDERER_URL']}#headless`)
+  } else {
+    window.loadFile(join(__dirname, '../renderer/index.html'), { hash: 'headless' })
+  }
+  return window
+}
+
+/**
+ * Must run before the app is ready
+ */
+export function prepareHeadlessRender(): void {
+  // The composer plays the voiceover through an AudioContext without a user gesture
+  app.commandLine.appendSwitch('autoplay-policy', 'no-user-gesture-required')
+  app.commandLine.appendSwitch('disable-renderer-backgrounding')
+  if (process.platform === 'darwin') app.dock?.hide()
+}
+
+/**
+ * Run a render job and exit with its result; IPC handlers the pipeline needs
+ * have to be set up first
+ */
+export function runHeadlessRender(argv: string[]): void {
+  let job: RenderJob
+  try {
+    job = parseRenderJob(argv)
+  } catch (error) {
+    printEvent({ type: 'error', message: (error as Error).message })
+    process.stderr.write(`${USAGE}\n`)
+    app.exit(error instanceof RenderUsageError ? EXIT_USAGE : EXIT_FAILED)
+    return
+  }
+
+  session.fromPartition(HEADLESS_PARTITION).protocol.handle(ASSET_SCHEME, handleAssetRequest)
+
+  let projectId: string | null = null
+  let finished = false
+
+  const finish = async (exitCode: number): Promise<void> => {
+    if (finished) return
+    finished = true
+    // The project only existed for this run
+    if (projectId) {
+      await rm(getProjectDirectory(projectId), { recursive: true, force: true }).catch(() => {})
+    }
+    app.exit(exitCode)
+  }
+
+  const fail = (message: string): void => {
+    printEvent({ type: 'error', message })
+    finish(EXIT_FAILED)
+  }
+
+  ipcMain.handle('get-render-job', () => job)
+
+  ipcMain.on('render-event', async (_event, renderEvent: RenderEvent) => {
+    switch (renderEvent.type) {
+      case 'progress':
+        printEvent(renderEvent)
+        return
+      case 'error':
+        projectId = renderEvent.projectId ?? null
+        fail(renderEvent.message)
+        return
+      case 'complete':
+        projectId = renderEvent.projectId
+        try {
+          const asset = parseAssetUrl(renderEvent.videoUrl)
+          if (!asset) throw new Error(`Unexpected video URL ${renderEvent.videoUrl}`)
+          await copyFile(getAssetPath(asset.projectId, asset.name), job.outputPath)
+        } catch (error) {
+          fail(`Failed to write ${job.outputPath}: ${(error as Error).message}`)
+          return
+        }
+        printEvent({ type: 'complete', output: job.outputPath })
+        finish(0)
+    }
+  })
+
+  printEvent({ type: 'start', job })
+
+  const window = createRenderWindow()
+  window.webContents.on('did-fail-load', (_event, _code, description) => {
+    fail(`Failed to load the renderer: ${description}`)
+  })
+  window.webContents.on('render-process-gone', (_event, details) => {
+    fail(`Renderer stopped: ${details.reason}`)
+  })
+  window.webContents.on('console-message', (_event, level, message) => {
+    // Warnings and errors from the pipeline, kept off stdout so it stays JSON
+    if (level >= 2) process.stderr.write(`${message}\n`)
+  })
+}
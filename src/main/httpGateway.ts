@@ -0,0 +1,137 @@
+/**
+ * HTTP gateway - Runs the renderer's API requests from the main process
+ *
+ * Requests go straight to the provider with no CORS limits, so nothing is
+ * routed through a third-party proxy. The response head is returned from
+ * the invoke call and the body is streamed back on 'http-body' so large
+ * audio and images never have to be buffered twice.
+ */
+import { ipcMain, net, type WebContents } from 'electron'
+import { getAuthHeaders } from './apiKeys'
+import type {
+  ApiProvider,
+  GatewayBody,
+  GatewayBodyEvent,
+  GatewayRequest,
+  GatewayResponseHead
+} from '../preload/index.d'
+
+// Only the providers the app talks to; keeps the gateway from being a general proxy
+const ALLOWED_HOSTS = new Set([
+  'api.cloudflare.com',
+  'generativelanguage.googleapis.com',
+  'ttsfm.cohook.com'
+])
+
+// Each provider's keys are only ever sent to that provider
+const CREDENTIAL_HOSTS: Record<ApiProvider, string> = {
+  gemini: 'generativelanguage.googleapis.com',
+  cloudflare: 'api.cloudflare.com'
+}
+
+const activeRequests = new Map<string, AbortController>()
+
+function assertAllowedUrl(url: string, credential?: ApiProvider): void {
+  const { protocol, hostname } = new URL(url)
+  if (protocol !== 'https:' || !ALLOWED_HOSTS.has(hostname)) {
+    throw new Error(`Requests to ${hostname} are not allowed`)
+  }
+  if (credential && CREDENTIAL_HOSTS[credential] !== hostname) {
+    throw new Error(`The ${credential} credential cannot be sent to ${hostname}`)
+  }
+}
+
+function toFetchBody(body: GatewayBody | undefined): BodyInit | undefined {
+  if (!body) return undefined
+  switch (body.type) {
+    case 'text':
+      return body.data
+    case 'bytes':
+      return body.data
+    case 'form': {
+      const form = new FormData()
+      for (const field of body.fields) {
+        if ('value' in field) {
+          form.append(field.name, field.value)
+        } else {
+          form.append(
+            field.name,
+            new Blob([field.data], { type: field.contentType }),
+            field.filename
+          )
+        }
+      }
+      return form
+    }
+  }
+}
+
+function sendBody(sender: WebContents, requestId: string, event: GatewayBodyEvent): void {
+  if (!sender.isDestroyed()) {
+    sender.send('http-body', requestId, event)
+  }
+}
+
+async function pumpBody(
+  sender: WebContents,
+  requestId: string,
+  response: Response,
+  controller: AbortController
+): Promise<void> {
+  try {
+    if (response.body) {
+      const reader = response.body.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        sendBody(sender, requestId, { type: 'chunk', data: value })
+      }
+    }
+    sendBody(sender, requestId, { type: 'end' })
+  } catch (error) {
+    const message = controller.signal.aborted ? 'Request cancelled' : (error as Error).message
+    sendBody(sender, requestId, { type: 'error', message })
+  } finally {
+    activeRequests.delete(requestId)
+  }
+}
+
+export function setupHttpGateway(): void {
+  ipcMain.handle(
+    'http-request',
+    async (event, requestId: string, request: GatewayRequest): Promise<GatewayResponseHead> => {
+      assertAllowedUrl(request.url, request.credential)
+
+      const controller = new AbortController()
+      activeRequests.set(requestId, controller)
+
+      let response: Response
+      try {
+        response = await net.fetch(request.url, {
+          method: request.method,
+          headers: request.credential
+            ? { ...request.headers, ...getAuthHeaders(request.credential) }
+            : request.headers,
+          body: toFetchBody(request.body),
+          signal: controller.signal
+        })
+      } catch (error) {
+        activeRequests.delete(requestId)
+        throw controller.signal.aborted ? new Error('Request cancelled') : error
+      }
+
+      // Stream the body after the head has been returned
+      void pumpBody(event.sender, requestId, response, controller)
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries())
+      }
+    }
+  )
+
+  ipcMain.handle('http-cancel', (_event, requestId: string) => {
+    activeRequests.get(requestId)?.abort()
+  })
+}
@@ -1,68 +1,37 @@
-import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
+import { app, shell, BrowserWindow, ipcMain } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
-import electronUpdater, { type AppUpdater } from 'electron-updater'
-
-export function getAutoUpdater(): AppUpdater {
-  const { autoUpdater } = electronUpdater
-  return autoUpdater
-}
-
-// Configure auto-updater
-const autoUpdater = getAutoUpdater()
-
-// Enable logging for debugging
-if (is.dev) {
-  const log = require('electron-log')
-  autoUpdater.logger = log
-  log.transports.file.level = 'debug'
-  // Force dev update config for development testing
-  autoUpdater.forceDevUpdateConfig = true
+import { setupAutoUpdater, startUpdateChecks } from './updater'
+import { registerAssetScheme, setupProjectAssets } from './projectAssets'
+import { setupHttpGateway } from './httpGateway'
+import { setupApiKeys } from './apiKeys'
+import { setupGenerationSettings } from './generationSettings'
+import { openBundle, openBundlesFromArgs, setupProjectBundles } from './projectBundle'
+import { setupAutomationApi } from './automationApi'
+import { isRenderCommand, prepareHeadlessRender, runHeadlessRender } from './headlessRender'
+
+// `autovid render ...` runs one job without a visible window, alongside the GUI if it is open
+const isHeadless = isRenderCommand(process.argv)
+
+// Privileged schemes have to be registered before the app is ready
+registerAssetScheme()
+
+if (isHeadless) {
+  prepareHeadlessRender()
+} else if (!app.requestSingleInstanceLock()) {
+  // One instance, so opening a .autovid bundle lands in the running window
+  app.exit()
 }
 
-// Auto-updater event handlers
-autoUpdater.on('checking-for-update', () => {
-  console.log('Checking for update...')
-})
-
-autoUpdater.on('update-available', (info) => {
-  console.log('Update available:', info)
-  dialog.showMessageBox({
-    type: 'info',
-    title: 'Update Available',
-    message: `Version ${info.version} is available. Downloading...`,
-    buttons: ['OK']
-  })
-})
-
-autoUpdater.on('update-not-available', (info) => {
-  console.log('Update not available:', info)
-})
-
-autoUpdater.on('error', (err) => {
-  console.error('Auto-updater error:', err)
-  dialog.showErrorBox('Update Error', `Error: ${err.message}`)
-})
-
-autoUpdater.on('download-progress', (progressObj) => {
-  console.log('Download progress:', progressObj)
+app.on('second-instance', (_event, argv) => {
+  openBundlesFromArgs(argv)
 })
 
-autoUpdater.on('update-downloaded', (info) => {
-  console.log('Update downloaded:', info)
-  dialog
-    .showMessageBox({
-      type: 'info',
-      title: 'Update Ready',
-      message: `Version ${info.version} has been downloaded. Restart the application to apply the update.`,
-      buttons: ['Restart', 'Later']
-    })
-    .then((result) => {
-      if (result.response === 0) {
-        autoUpdater.quitAndInstall()
-      }
-    })
+// macOS delivers double-clicked files here, possibly before ready
+app.on('open-file', (event, path) => {
+  event.preventDefault()
+  openBundle(path)
 })
 
 function createWindow(): void {
@@ -118,27 +87,37 @@ app.whenReady().then(() => {
   // IPC test
   ipcMain.on('ping', () => console.log('pong'))
 
-  // IPC handlers for auto-updater
-  ipcMain.handle('check-for-updates', () => {
-    return autoUpdater.checkForUpdates()
-  })
+  ipcMain.handle('get-app-version', () => app.getVersion())
 
-  ipcMain.handle('download-update', () => {
-    return autoUpdater.downloadUpdate()
-  })
+  // Project asset folders and the autovid-asset:// protocol
+  setupProjectAssets()
+  setupProjectBundles()
 
-  ipcMain.handle('quit-and-install', () => {
-    autoUpdater.quitAndInstall()
-  })
+  // API requests from the renderer go out through the main process,
+  // signed with keys that never leave it
+  setupApiKeys()
+  setupHttpGateway()
+  setupGenerationSettings()
+
+  if (isHeadless) {
+    runHeadlessRender(process.argv)
+    return
+  }
+
+  // Opt-in localhost API for other tools to queue renders
+  setupAutomationApi()
+
+  // IPC handlers for auto-updater
+  setupAutoUpdater()
 
   createWindow()
 
+  // Windows and Linux pass double-clicked files on the command line
+  openBundlesFromArgs(process.argv)
+
   // Check for updates on app start (with a small delay to ensure window is ready)
-  setTimeout(() => {
-    if (!is.dev) {
-      autoUpdater.checkForUpdatesAndNotify()
-    }
-  }, 3000)
+  // and periodically after that
+  startUpdateChecks()
 
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
@@ -151,7 +130,7 @@ app.whenReady().then(() => {
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
 app.on('window-all-closed', () => {
-  if (process.platform !== 'darwin') {
+  if (process.platform !== 'darwin' && !isHeadless) {
     app.quit()
   }
 })
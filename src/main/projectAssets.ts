@@ -0,0 +1,146 @@
+/**
+ * Project assets - Per-project folders in userData for images, audio, captions and renders
+ *
+ * The renderer writes assets over IPC and reads them back through the
+ * autovid-asset:// scheme, so stored projects only hold URLs that survive
+ * restarts instead of blob: URLs.
+ */
+import { app, BrowserWindow, dialog, ipcMain, net, protocol } from 'electron'
+import { existsSync } from 'fs'
+import { copyFile, mkdir, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+
+export const ASSET_SCHEME = 'autovid-asset'
+
+// Ids and file names become path segments, so nothing that could leave the folder
+const SAFE_SEGMENT = /^[\w-][\w.-]*$/
+
+export function getProjectsDirectory(): string {
+  return join(app.getPath('userData'), 'projects')
+}
+
+export function getProjectDirectory(projectId: string): string {
+  if (!SAFE_SEGMENT.test(projectId)) {
+    throw new Error(`Invalid project id: ${projectId}`)
+  }
+  return join(getProjectsDirectory(), projectId)
+}
+
+export function getAssetPath(projectId: string, name: string): string {
+  if (!SAFE_SEGMENT.test(name)) {
+    throw new Error(`Invalid asset name: ${name}`)
+  }
+  return join(getProjectDirectory(projectId), name)
+}
+
+/**
+ * Build the URL the renderer stores; the query busts caches when a file is rewritten
+ */
+function getAssetUrl(projectId: string, name: string): string {
+  return `${ASSET_SCHEME}://projects/${projectId}/${name}?v=${Date.now()}`
+}
+
+/**
+ * The project and file an asset URL points at, or null for any other URL
+ */
+export function parseAssetUrl(url: string): { projectId: string; name: string } | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  const [projectId, name, ...rest] = decodeURIComponent(parsed.pathname).split('/').filter(Boolean)
+  if (parsed.protocol !== `${ASSET_SCHEME}:` || parsed.host !== 'projects' || !projectId || !name) {
+    return null
+  }
+  return rest.length ? null : { projectId, name }
+}
+
+/**
+ * Must run before the app is ready
+ */
+export function registerAssetScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: ASSET_SCHEME,
+      // stream lets <audio>/<video> seek; corsEnabled keeps canvases untainted
+      privileges: {
+        standard: true,
+        secure: true,
+        supportFetchAPI: true,
+        stream: true,
+        corsEnabled: true
+      }
+    }
+  ])
+}
+
+export async function writeProjectAsset(
+  projectId: string,
+  name: string,
+  data: Uint8Array | string
+): Promise<string> {
+  await mkdir(getProjectDirectory(projectId), { recursive: true })
+  await writeFile(getAssetPath(projectId, name), data)
+  return getAssetUrl(projectId, name)
+}
+
+/**
+ * Serve autovid-asset:// requests from the project folders; sessions other
+ * than the default one register it themselves
+ */
+export async function handleAssetRequest(request: Request): Promise<Response> {
+  const asset = parseAssetUrl(request.url)
+
+  let filePath: string
+  try {
+    if (!asset) throw new Error('Not found')
+    filePath = getAssetPath(asset.projectId, asset.name)
+  } catch {
+    return new Response(null, { status: 404 })
+  }
+  if (!existsSync(filePath)) {
+    return new Response(null, { status: 404 })
+  }
+
+  // Pass Range through so media elements can seek
+  const response = await net.fetch(pathToFileURL(filePath).toString(), {
+    headers: request.headers
+  })
+  const headers = new Headers(response.headers)
+  headers.set('Access-Control-Allow-Origin', '*')
+  return new Response(response.body, { status: response.status, headers })
+}
+
+export function setupProjectAssets(): void {
+  protocol.handle(ASSET_SCHEME, handleAssetRequest)
+
+  ipcMain.handle(
+    'write-project-asset',
+    (_event, projectId: string, name: string, data: Uint8Array | string) =>
+      writeProjectAsset(projectId, name, data)
+  )
+
+  ipcMain.handle('delete-project-assets', async (_event, projectId: string) => {
+    await rm(getProjectDirectory(projectId), { recursive: true, force: true })
+  })
+
+  // Copies the file instead of round-tripping large renders through the renderer
+  ipcMain.handle(
+    'export-project-asset',
+    async (event, projectId: string, name: string, defaultName: string) => {
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const options = { defaultPath: defaultName }
+      const result = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options)
+
+      if (result.canceled || !result.filePath) return null
+
+      await copyFile(getAssetPath(projectId, name), result.filePath)
+      return result.filePath
+    }
+  )
+}
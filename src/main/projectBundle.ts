@@ -0,0 +1,240 @@
+/**
+ * Project bundles - Portable .autovid archives of a project and its asset folder
+ *
+ * A bundle is a zip holding manifest.json plus every file from the project
+ * folder under assets/. Asset URLs in the manifest are rewritten to
+ * bundle-asset: references so they can be pointed at the new folder on import.
+ */
+import { app, BrowserWindow, dialog, ipcMain } from 'electron'
+import { existsSync } from 'fs'
+import { readdir, readFile, rm, writeFile } from 'fs/promises'
+import { basename, join } from 'path'
+import { strFromU8, strToU8, unzip, zip, type Unzipped, type Zippable } from 'fflate'
+import { ASSET_SCHEME, getProjectDirectory, writeProjectAsset } from './projectAssets'
+import type { ProjectBundleManifest } from '../preload/index.d'
+
+export const BUNDLE_EXTENSION = 'autovid'
+const BUNDLE_FORMAT = 'autovid-project'
+const BUNDLE_VERSION = 1
+const BUNDLE_ASSET_PREFIX = 'bundle-asset:'
+
+// Bundles opened before the renderer asked for them (file association, argv)
+const pendingBundles: string[] = []
+
+function zipAsync(files: Zippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    // Media is already compressed, so only the manifest is deflated
+    zip(files, { level: 0 }, (error, data) => (error ? reject(error) : resolve(data)))
+  })
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)))
+  })
+}
+
+/**
+ * Replace every string in a JSON value, leaving its shape alone
+ */
+function mapStrings(value: unknown, transform: (text: string) => string): unknown {
+  if (typeof value === 'string') return transform(value)
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, transform))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+    )
+  }
+  return value
+}
+
+function getAssetName(url: string, projectId: string): string | null {
+  const prefix = `${ASSET_SCHEME}://projects/${projectId}/`
+  if (!url.startsWith(prefix)) return null
+  return decodeURIComponent(url.slice(prefix.length).split('?')[0])
+}
+
+async function exportBundle(
+  window: BrowserWindow | null,
+  project: Record<string, unknown>,
+  schemaVersion: number
+): Promise<string | null> {
+  const projectId = String(project.id)
+  const options = {
+    title: 'Export Project',
+    defaultPath: `${String(project.name || 'project').replace(/[^\w-]+/g, '_')}.${BUNDLE_EXTENSION}`,
+    filters: [{ name: 'AutoVid Project', extensions: [BUNDLE_EXTENSION] }]
+  }
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options)
+  if (result.canceled || !result.filePath) return null
+
+  const manifest: ProjectBundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion,
+    appVersion: app.getVersion(),
+    exportedAt: new Date().toISOString(),
+    project: mapStrings(project, (text) => {
+      const name = getAssetName(text, projectId)
+      return name ? `${BUNDLE_ASSET_PREFIX}${name}` : text
+    }) as Record<string, unknown>
+  }
+
+  const files: Zippable = {
+    'manifest.json': [strToU8(JSON.stringify(manifest, null, 2)), { level: 6 }]
+  }
+  const directory = getProjectDirectory(projectId)
+  if (existsSync(directory)) {
+    for (const name of await readdir(directory)) {
+      files[`assets/${name}`] = await readFile(join(directory, name))
+    }
+  }
+
+  await writeFile(result.filePath, await zipAsync(files))
+  return result.filePath
+}
+
+/**
+ * Check the manifest is a bundle this build understands before touching disk;
+ * `schemaVersion` is the newest project schema the renderer can migrate from
+ */
+function validateManifest(files: Unzipped, schemaVersion: number): ProjectBundleManifest {
+  const raw = files['manifest.json']
+  if (!raw) throw new Error('Not an AutoVid project: manifest.json is missing')
+
+  let manifest: ProjectBundleManifest
+  try {
+    manifest = JSON.parse(strFromU8(raw))
+  } catch {
+    throw new Error('The project manifest is not valid JSON')
+  }
+
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not an AutoVid project bundle')
+  }
+  if (manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new Error('This bundle was made by a newer version of AutoVid')
+  }
+  if (!Number.isInteger(manifest.schemaVersion)) {
+    throw new Error('The project manifest has no schema version')
+  }
+  if (manifest.schemaVersion > schemaVersion) {
+    throw new Error(
+      `This project was saved by a newer version of AutoVid (schema v${manifest.schemaVersion}, this build reads v${schemaVersion})`
+    )
+  }
+
+  const { project } = manifest
+  if (
+    !project ||
+    typeof project.name !== 'string' ||
+    typeof project.topic !== 'string' ||
+    !Array.isArray(project.scenes)
+  ) {
+    throw new Error('The project manifest is missing required fields')
+  }
+
+  // Every referenced asset has to be in the archive
+  mapStrings(project, (text) => {
+    if (text.startsWith(BUNDLE_ASSET_PREFIX)) {
+      const name = text.slice(BUNDLE_ASSET_PREFIX.length)
+      if (!files[`assets/${name}`]) throw new Error(`The bundle is missing ${name}`)
+    }
+    return text
+  })
+
+  return manifest
+}
+
+async function importBundle(
+  filePath: string,
+  schemaVersion: number
+): Promise<ProjectBundleManifest> {
+  const files = await unzipAsync(new Uint8Array(await readFile(filePath)))
+  const manifest = validateManifest(files, schemaVersion)
+
+  // Always a new ID, so importing the same bundle twice never collides
+  const projectId = `project-${Date.now()}`
+  const urls = new Map<string, string>()
+  try {
+    for (const [path, data] of Object.entries(files)) {
+      if (!path.startsWith('assets/') || path.endsWith('/')) continue
+      const name = basename(path)
+      urls.set(name, await writeProjectAsset(projectId, name, data))
+    }
+  } catch (error) {
+    // Don't leave half an import behind
+    await rm(getProjectDirectory(projectId), { recursive: true, force: true })
+    throw error
+  }
+
+  const project = mapStrings(manifest.project, (text) =>
+    text.startsWith(BUNDLE_ASSET_PREFIX)
+      ? (urls.get(text.slice(BUNDLE_ASSET_PREFIX.length)) ?? text)
+      : text
+  ) as Record<string, unknown>
+
+  return {
+    ...manifest,
+    project: { ...project, id: projectId, createdAt: new Date().toISOString() }
+  }
+}
+
+function isBundlePath(path: string): boolean {
+  return path.toLowerCase().endsWith(`.${BUNDLE_EXTENSION}`) && existsSync(path)
+}
+
+/**
+ * Queue a bundle for the renderer, which collects the queue when it mounts
+ * and whenever it is told more have arrived
+ */
+export function openBundle(path: string): void {
+  pendingBundles.push(path)
+
+  const window = BrowserWindow.getAllWindows()[0]
+  if (window) {
+    window.webContents.send('project-bundles-pending')
+    if (window.isMinimized()) window.restore()
+    window.focus()
+  }
+}
+
+export function openBundlesFromArgs(argv: string[]): void {
+  argv.filter(isBundlePath).forEach(openBundle)
+}
+
+export function setupProjectBundles(): void {
+  ipcMain.handle(
+    'export-project-bundle',
+    (event, project: Record<string, unknown>, schemaVersion: number) =>
+      exportBundle(BrowserWindow.fromWebContents(event.sender), project, schemaVersion)
+  )
+
+  ipcMain.handle(
+    'import-project-bundle',
+    async (event, schemaVersion: number, filePath?: string) => {
+      let path = filePath
+      if (path && !isBundlePath(path)) {
+        throw new Error(`Not an AutoVid project bundle: ${path}`)
+      }
+      if (!path) {
+        const window = BrowserWindow.fromWebContents(event.sender)
+        const options = {
+          title: 'Import Project',
+          properties: ['openFile' as const],
+          filters: [{ name: 'AutoVid Project', extensions: [BUNDLE_EXTENSION] }]
+        }
+        const result = window
+          ? await dialog.showOpenDialog(window, options)
+          : await dialog.showOpenDialog(options)
+        if (result.canceled || !result.filePaths[0]) return null
+        path = result.filePaths[0]
+      }
+      return importBundle(path, schemaVersion)
+    }
+  )
+
+  ipcMain.handle('take-pending-bundles', () => pendingBundles.splice(0))
+}
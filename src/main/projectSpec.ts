@@ -0,0 +1,103 @@
+/**
+ * Project spec - Validation for projects created outside the dashboard
+ *
+ * The command line and the automation API both describe a project with the
+ * same option names and defaults as the dashboard's New Project form.
+ */
+import type { ProjectSpec } from '../preload/index.d'
+
+const ASPECT_RATIOS: ProjectSpec['aspectRatio'][] = ['16:9', '9:16', '1:1']
+const CAPTION_TEMPLATES: ProjectSpec['captionTemplate'][] = [
+  'karaoke',
+  'word-by-word',
+  'sentence',
+  'minimal'
+]
+
+// The voices TTSService offers in the renderer
+const VOICES: ProjectSpec['voice'][] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+const VOICE_FORMATS: ProjectSpec['voiceFormat'][] = ['mp3', 'wav', 'flac', 'opus']
+
+export const PROJECT_SPEC_OPTIONS = [
+  'topic',
+  'name',
+  'scenes',
+  'duration',
+  'aspect',
+  'captions',
+  'voice',
+  'speed',
+  'format'
+]
+
+export class ProjectSpecError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectSpecError'
+  }
+}
+
+function readText(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string') throw new ProjectSpecError(`${name} must be text`)
+  return value.trim() || undefined
+}
+
+// Accepts numbers from JSON and numeric strings from the command line
+function readInteger(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  if (value === undefined || value === null) return fallback
+  const number = typeof value === 'string' ? Number(value) : value
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+    throw new ProjectSpecError(`${name} must be a whole number from ${min} to ${max}`)
+  }
+  return number
+}
+
+function readNumber(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  if (value === undefined || value === null) return fallback
+  const number = typeof value === 'string' ? Number(value) : value
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max) {
+    throw new ProjectSpecError(`${name} must be a number from ${min} to ${max}`)
+  }
+  return number
+}
+
+function readChoice<T extends string>(value: unknown, name: string, choices: T[], fallback: T): T {
+  if (value === undefined || value === null) return fallback
+  if (!choices.includes(value as T)) {
+    throw new ProjectSpecError(`${name} must be one of ${choices.join(', ')}`)
+  }
+  return value as T
+}
+
+export function parseProjectSpec(options: Record<string, unknown>): ProjectSpec {
+  const unknown = Object.keys(options).find((key) => !PROJECT_SPEC_OPTIONS.includes(key))
+  if (unknown) throw new ProjectSpecError(`${unknown} is not a known option`)
+
+  const topic = readText(options.topic, 'topic')
+  if (!topic) throw new ProjectSpecError('topic is required')
+
+  return {
+    name: readText(options.name, 'name') || topic.slice(0, 50),
+    topic,
+    sceneCount: readInteger(options.scenes, 'scenes', 1, 300, 10),
+    duration: readInteger(options.duration, 'duration', 1, 60, 5),
+    aspectRatio: readChoice(options.aspect, 'aspect', ASPECT_RATIOS, '9:16'),
+    captionTemplate: readChoice(options.captions, 'captions', CAPTION_TEMPLATES, 'karaoke'),
+    voice: readChoice(options.voice, 'voice', VOICES, 'nova'),
+    speed: readNumber(options.speed, 'speed', 0.5, 2, 1),
+    voiceFormat: readChoice(options.format, 'format', VOICE_FORMATS, 'mp3')
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Settings - Main-process preferences persisted as JSON in userData
+ */
+import { app } from 'electron'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { AppSettings } from '../preload/index.d'
+
+const DEFAULT_SETTINGS: AppSettings = {
+  updates: {
+    channel: 'stable',
+    skippedVersions: [],
+    pinnedVersion: null,
+    checkIntervalHours: 4,
+    lastCheck: null
+  },
+  automation: {
+    enabled: false,
+    port: 47821,
+    token: null
+  },
+  generation: {
+    imageConcurrency: 3
+  }
+}
+
+let cachedSettings: AppSettings | null = null
+
+function getSettingsPath(): string {
+  return join(app.getPath('userData'), 'settings.json')
+}
+
+/**
+ * Read settings from disk, falling back to defaults for missing keys
+ */
+export function getSettings(): AppSettings {
+  if (cachedSettings) return cachedSettings
+
+  let stored: Partial<AppSettings> = {}
+  const settingsPath = getSettingsPath()
+  if (existsSync(settingsPath)) {
+    try {
+      stored = JSON.parse(readFileSync(settingsPath, 'utf-8'))
+    } catch (error) {
+      console.error('Failed to read settings, using defaults:', error)
+    }
+  }
+
+  cachedSettings = {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    updates: { ...DEFAULT_SETTINGS.updates, ...stored.updates },
+    automation: { ...DEFAULT_SETTINGS.automation, ...stored.automation },
+    generation: { ...DEFAULT_SETTINGS.generation, ...stored.generation }
+  }
+  return cachedSettings
+}
+
+/**
+ * Merge a section of settings and write the result to disk
+ */
+export function updateSettings<K extends keyof AppSettings>(
+  section: K,
+  updates: Partial<AppSettings[K]>
+): AppSettings {
+  const current = getSettings()
+  cachedSettings = { ...current, [section]: { ...current[section], ...updates } }
+  writeFileSync(getSettingsPath(), JSON.stringify(cachedSettings, null, 2))
+  return cachedSettings
+}
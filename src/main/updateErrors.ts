@@ -0,0 +1,58 @@
+/**
+ * Update errors - Sorts electron-updater failures into kinds the UI can act on
+ */
+import type { UpdateErrorKind } from '../preload/index.d'
+
+type UpdaterError = Error & { code?: string; statusCode?: number }
+
+const NETWORK_CODES = new Set([
+  'ENOTFOUND',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'EPIPE'
+])
+
+// Checksum and code signature failures both mean the download can't be trusted
+const CHECKSUM_CODES = new Set([
+  'ERR_CHECKSUM_MISMATCH',
+  'ERR_UPDATER_INVALID_SIGNATURE',
+  'ERR_UPDATER_NO_CHECKSUM'
+])
+
+const DISK_CODES = new Set(['EACCES', 'EPERM', 'ENOSPC', 'EROFS', 'EBUSY', 'EMFILE'])
+
+const NO_RELEASE_CODES = new Set([
+  'ERR_UPDATER_CHANNEL_FILE_NOT_FOUND',
+  'ERR_UPDATER_LATEST_VERSION_NOT_FOUND',
+  'ERR_UPDATER_NO_PUBLISHED_VERSIONS',
+  'ERR_UPDATER_ASSET_NOT_FOUND'
+])
+
+export function classifyUpdateError(error: UpdaterError): UpdateErrorKind {
+  const code = error.code ?? ''
+  const message = error.message || ''
+
+  if (CHECKSUM_CODES.has(code) || /checksum mismatch|not signed|code signature/i.test(message)) {
+    return 'checksum'
+  }
+  if (NO_RELEASE_CODES.has(code) || error.statusCode === 404) {
+    return 'no-release'
+  }
+  if (DISK_CODES.has(code)) {
+    return 'disk'
+  }
+  if (
+    NETWORK_CODES.has(code) ||
+    /net::ERR_/.test(message) ||
+    (error.statusCode !== undefined && error.statusCode >= 500)
+  ) {
+    return 'network'
+  }
+  return 'unknown'
+}
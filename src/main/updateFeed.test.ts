@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { get, request, type RequestOptions } from 'http'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import electronUpdater, { type UpdateDownloadedEvent } from 'electron-updater'
+import {
+  configureRequestOptions,
+  configureRequestUrl,
+  HttpExecutor,
+  type DownloadOptions
+} from 'builder-util-runtime'
+import { serveUpdateDirectory, type UpdateFeedServer } from './updateFeed'
+import { writeUpdateFeed } from './updateFeedFixture'
+
+const { AppImageUpdater } = electronUpdater
+
+type AppAdapter = NonNullable<ConstructorParameters<typeof AppImageUpdater>[1]>
+
+/**
+ * Plain Node HTTP in place of Electron's net module, which only exists inside Electron
+ */
+class NodeHttpExecutor extends HttpExecutor<ReturnType<typeof request>> {
+  createRequest(
+    options: RequestOptions,
+    callback: (response: unknown) => void
+  ): ReturnType<typeof request> {
+    return request(options, callback)
+  }
+
+  // Called by the updater for artifacts, but only defined on Electron's executor
+  download(url: URL, destination: string, options: DownloadOptions): Promise<string> {
+    return options.cancellationToken.createPromise((resolve, reject, onCancel) => {
+      const requestOptions: RequestOptions = { headers: options.headers || undefined }
+      configureRequestUrl(url, requestOptions)
+      configureRequestOptions(requestOptions)
+      this.doDownload(
+        requestOptions,
+        {
+          destination,
+          options,
+          onCancel,
+          callback: (error) => (error ? reject(error) : resolve(destination)),
+          responseHandler: null
+        },
+        0
+      )
+    })
+  }
+}
+
+/**
+ * An installed v1.0.0 whose user data, cache and update config live in `root`
+ */
+function createApp(root: string): AppAdapter {
+  const appUpdateConfigPath = join(root, 'app-update.yml')
+  writeFileSync(appUpdateConfigPath, 'updaterCacheDirName: autovid-updater\n')
+  return {
+    version: '1.0.0',
+    name: 'autovid',
+    isPackaged: true,
+    appUpdateConfigPath,
+    userDataPath: root,
+    baseCachePath: join(root, 'cache'),
+    whenReady: () => Promise.resolve(),
+    relaunch: () => {},
+    quit: () => {},
+    onQuit: () => {}
+  }
+}
+
+describe('update feed', () => {
+  let root: string
+  let feed: UpdateFeedServer
+
+  async function createUpdater(tampered: boolean): Promise<InstanceType<typeof AppImageUpdater>> {
+    const directory = join(root, 'feed')
+    writeUpdateFeed(directory, { version: '9.9.9', channel: 'latest', tampered })
+    feed = await serveUpdateDirectory(directory)
+
+    const updater = new AppImageUpdater(null, createApp(root))
+    // Electron's executor is only created for the real app; tests swap in Node's
+    Object.assign(updater, { httpExecutor: new NodeHttpExecutor() })
+    updater.setFeedURL({ provider: 'generic', url: feed.url })
+    updater.logger = null
+    updater.autoDownload = false
+    // The AppImage being replaced; differential downloads would diff against it
+    updater.disableDifferentialDownload = true
+    return updater
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'autovid-update-test-'))
+    writeFileSync(join(root, 'autovid.AppImage'), '')
+    vi.stubEnv('APPIMAGE', join(root, 'autovid.AppImage'))
+    // Channel files carry an arch suffix except on x64
+    vi.stubEnv('TEST_UPDATER_ARCH', 'x64')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    feed?.server.close()
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('downloads and verifies the release a good feed offers', async () => {
+    const updater = await createUpdater(false)
+    const downloaded = new Promise<UpdateDownloadedEvent>((resolve) =>
+      updater.once('update-downloaded', resolve)
+    )
+
+    const result = await updater.checkForUpdates()
+    expect(result?.isUpdateAvailable).toBe(true)
+    await updater.downloadUpdate()
+
+    const event = await downloaded
+    expect(event.version).toBe('9.9.9')
+    expect(event.downloadedFile).toMatch(/autovid-9\.9\.9\.AppImage$/)
+  })
+
+  it('rejects a download whose sha512 does not match the feed', async () => {
+    const updater = await createUpdater(true)
+    const failed = new Promise<Error>((resolve) => updater.once('error', resolve))
+    const downloaded = vi.fn()
+    updater.on('update-downloaded', downloaded)
+
+    await updater.checkForUpdates()
+    await expect(updater.downloadUpdate()).rejects.toThrow(/sha512 checksum mismatch/)
+
+    const error = await failed
+    expect(error.message).toMatch(/sha512 checksum mismatch/)
+    expect(downloaded).not.toHaveBeenCalled()
+  })
+
+  it('answers 400 to a path with malformed percent-encoding', async () => {
+    const directory = join(root, 'feed')
+    writeUpdateFeed(directory, { version: '9.9.9', channel: 'latest' })
+    feed = await serveUpdateDirectory(directory)
+
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      get(`${feed.url}%E0%A4%A`, (response) => {
+        response.resume()
+        resolve(response.statusCode)
+      }).on('error', reject)
+    })
+    expect(status).toBe(400)
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Update feed - Points the updater at a generic feed instead of GitHub releases
+ *
+ * AUTOVID_UPDATE_FEED may be an http(s) URL or a local directory holding
+ * latest.yml and the artifacts it lists. Directories are served on localhost
+ * so electron-updater can fetch them like any other generic provider.
+ */
+import { createServer, type Server } from 'http'
+import { createReadStream, existsSync, statSync } from 'fs'
+import { extname, join, normalize, resolve, sep } from 'path'
+import type { AddressInfo } from 'net'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.yml': 'text/yaml',
+  '.yaml': 'text/yaml',
+  '.json': 'application/json'
+}
+
+export function getUpdateFeedOverride(): string | null {
+  return process.env['AUTOVID_UPDATE_FEED'] || null
+}
+
+export interface UpdateFeedServer {
+  url: string
+  server: Server
+}
+
+/**
+ * Serve a directory read-only on localhost; port 0 picks a free one
+ */
+export function serveUpdateDirectory(directory: string, port = 0): Promise<UpdateFeedServer> {
+  const root = resolve(directory)
+
+  const server = createServer((req, res) => {
+    let pathname: string
+    try {
+      pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname)
+    } catch {
+      // Malformed percent-encoding
+      res.writeHead(400)
+      res.end()
+      return
+    }
+    const filePath = normalize(join(root, pathname))
+
+    // Never serve anything outside the feed directory
+    if (!filePath.startsWith(root + sep) || !existsSync(filePath) || !statSync(filePath).isFile()) {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(filePath)] || 'application/octet-stream',
+      'Content-Length': statSync(filePath).size
+    })
+    createReadStream(filePath).pipe(res)
+  })
+
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo
+      resolvePromise({ url: `http://127.0.0.1:${address.port}/`, server })
+    })
+  })
+}
+
+/**
+ * Turn a feed override into a URL the generic provider can use
+ */
+export async function resolveUpdateFeed(feed: string): Promise<string> {
+  if (/^https?:\/\//i.test(feed)) return feed
+
+  if (!existsSync(feed) || !statSync(feed).isDirectory()) {
+    throw new Error(`Update feed directory not found: ${feed}`)
+  }
+  const { url, server } = await serveUpdateDirectory(feed)
+  // Keep the app from staying alive just for the feed
+  server.unref()
+  return url
+}
@@ -0,0 +1,70 @@
+/**
+ * Update feed fixture - Writes fake release artifacts and the channel files that describe them
+ *
+ * Used by scripts/update-feed.mjs and the updater tests; never bundled into the app.
+ */
+import { createHash, randomBytes } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+export interface UpdateFeedFixtureOptions {
+  version: string
+  channel: string
+  // Publish a sha512 that does not match the artifact
+  tampered?: boolean
+}
+
+// Channel file suffix and artifact name per platform, as electron-builder publishes them
+const PLATFORMS = [
+  { suffix: '', artifact: (version: string) => `autovid-${version}-setup.exe` },
+  { suffix: '-mac', artifact: (version: string) => `autovid-${version}-mac.zip` },
+  { suffix: '-linux', artifact: (version: string) => `autovid-${version}.AppImage` }
+]
+
+function sha512(data: Buffer): string {
+  return createHash('sha512').update(data).digest('base64')
+}
+
+/**
+ * Write a feed into an empty or missing directory; anything already there is left alone
+ */
+export function writeUpdateFeed(
+  directory: string,
+  { version, channel, tampered = false }: UpdateFeedFixtureOptions
+): void {
+  if (existsSync(directory) && readdirSync(directory).length > 0) {
+    throw new Error(
+      `Refusing to write an update feed into a directory that is not empty: ${directory}`
+    )
+  }
+  mkdirSync(directory, { recursive: true })
+
+  const releaseDate = new Date().toISOString()
+
+  for (const platform of PLATFORMS) {
+    const artifact = platform.artifact(version)
+    const content = randomBytes(256 * 1024)
+    writeFileSync(join(directory, artifact), content)
+
+    // A checksum of different bytes makes verification fail after download
+    const checksum = tampered ? sha512(randomBytes(content.length)) : sha512(content)
+
+    const metadata = [
+      `version: ${version}`,
+      'files:',
+      `  - url: ${artifact}`,
+      `    sha512: ${checksum}`,
+      `    size: ${content.length}`,
+      `path: ${artifact}`,
+      `sha512: ${checksum}`,
+      `releaseDate: '${releaseDate}'`,
+      // Markdown notes, shown in the app's release notes panel
+      'releaseNotes: |',
+      `  ## AutoVid ${version}`,
+      '  - Fixture release served from the local update feed',
+      ''
+    ].join('\n')
+
+    writeFileSync(join(directory, `${channel}${platform.suffix}.yml`), metadata)
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Update log - Rotating electron-log file for updater diagnostics
+ */
+import { BrowserWindow, dialog } from 'electron'
+import { is } from '@electron-toolkit/utils'
+import log from 'electron-log/main'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+
+export const updateLog = log.create({ logId: 'updater' })
+
+updateLog.transports.file.fileName = 'updater.log'
+updateLog.transports.file.level = is.dev ? 'debug' : 'info'
+// Rotate to updater.old.log once the file passes 1 MB
+updateLog.transports.file.maxSize = 1024 * 1024
+
+/**
+ * Read the archived and current log files as one text
+ */
+export function readUpdateLog(): string {
+  const currentPath = updateLog.transports.file.getFile().path
+  const archivedPath = currentPath.replace(/\.log$/, '.old.log')
+
+  return [archivedPath, currentPath]
+    .filter((path) => existsSync(path))
+    .map((path) => readFileSync(path, 'utf-8'))
+    .join('')
+}
+
+/**
+ * Ask where to save the log and write it there, returning the chosen path
+ */
+export async function exportUpdateLog(window: BrowserWindow | null): Promise<string | null> {
+  const options = {
+    title: 'Export Update Log',
+    defaultPath: `autovid-updater-${new Date().toISOString().slice(0, 10)}.log`,
+    filters: [{ name: 'Log files', extensions: ['log', 'txt'] }]
+  }
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options)
+
+  if (result.canceled || !result.filePath) return null
+
+  writeFileSync(result.filePath, readUpdateLog())
+  return result.filePath
+}
@@ -0,0 +1,490 @@
+/**
+ * Auto-updater - Forwards electron-updater events to the renderer over IPC
+ */
+import { app, BrowserWindow, ipcMain } from 'electron'
+import { is } from '@electron-toolkit/utils'
+import electronUpdater, {
+  type AppUpdater,
+  type CancellationToken,
+  type UpdateInfo
+} from 'electron-updater'
+import semver from 'semver'
+import { getSettings, updateSettings } from './settings'
+import { getUpdateFeedOverride, resolveUpdateFeed } from './updateFeed'
+import { classifyUpdateError } from './updateErrors'
+import { updateLog, readUpdateLog, exportUpdateLog } from './updateLog'
+import type {
+  InstallPolicy,
+  InstallState,
+  ReleaseNotes,
+  SkipReason,
+  UpdateChannel,
+  UpdateCheckRecord,
+  UpdateSettings,
+  UpdateStatus
+} from '../preload/index.d'
+
+const UPDATE_CHANNELS: UpdateChannel[] = ['stable', 'beta', 'alpha']
+
+// Network failures retry after 10s, 20s, 40s, 80s, 160s
+const RETRY_BASE_DELAY = 10 * 1000
+const MAX_RETRIES = 5
+
+// Longest background check interval the settings accept, in hours
+const MAX_CHECK_INTERVAL = 7 * 24
+
+// Longest an install can be snoozed, in hours; well under setTimeout's ~24.8 day limit
+const MAX_SNOOZE_HOURS = 7 * 24
+
+export function getAutoUpdater(): AppUpdater {
+  const { autoUpdater } = electronUpdater
+  return autoUpdater
+}
+
+const autoUpdater = getAutoUpdater()
+
+// Last known status, so a freshly mounted renderer can catch up
+let currentStatus: UpdateStatus = { state: 'idle' }
+
+function sendStatus(status: UpdateStatus): void {
+  currentStatus = status
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send('update-status', status)
+  }
+}
+
+// Settles once a feed override (if any) has been applied
+let feedReady: Promise<void> = Promise.resolve()
+
+let checkInterval: ReturnType<typeof setInterval> | null = null
+
+// Operation to repeat when a network failure is retried
+let lastOperation: 'check' | 'download' = 'check'
+let retryAttempt = 0
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+// Version being offered or downloaded, and a way to abort its download
+let pendingVersion: string | null = null
+let downloadCancellation: CancellationToken | null = null
+// Settles when the latest download finishes, fails or is cancelled
+let downloadSettled: Promise<void> = Promise.resolve()
+// Set from cancelling a download until it settles; its errors on the way out are expected
+let cancellingDownload = false
+
+// Notes from the latest check, for the renderer's release notes panel
+let releaseNotes: ReleaseNotes | null = null
+
+// Reported by the renderer whenever ProjectStore.isGenerating changes
+let isRendererGenerating = false
+let snoozeTimer: ReturnType<typeof setTimeout> | null = null
+
+function setInstallState(install: InstallState, snoozedUntil?: number): void {
+  if (currentStatus.state !== 'downloaded') return
+  sendStatus({ ...currentStatus, install, snoozedUntil })
+}
+
+/**
+ * Restart into the downloaded update, holding off while a render is running
+ */
+function installWhenIdle(): void {
+  if (isRendererGenerating) {
+    setInstallState('waiting')
+    return
+  }
+  autoUpdater.quitAndInstall()
+}
+
+function applyInstallPolicy(policy: InstallPolicy, snoozeHours = 1): void {
+  if (snoozeTimer) {
+    clearTimeout(snoozeTimer)
+    snoozeTimer = null
+  }
+
+  switch (policy) {
+    case 'now':
+      installWhenIdle()
+      break
+    case 'on-quit':
+      // electron-updater installs pending updates on quit by default
+      autoUpdater.autoInstallOnAppQuit = true
+      setInstallState('on-quit')
+      break
+    case 'snooze': {
+      const delay = snoozeHours * 60 * 60 * 1000
+      setInstallState('snoozed', Date.now() + delay)
+      snoozeTimer = setTimeout(() => {
+        snoozeTimer = null
+        setInstallState('prompt')
+      }, delay)
+      break
+    }
+  }
+}
+
+/**
+ * Point the updater at the selected release channel
+ */
+function applyUpdateSettings(settings: UpdateSettings): void {
+  const isPrerelease = semver.prerelease(app.getVersion()) !== null
+
+  // Setting the channel also resets allowDowngrade, so it goes first
+  autoUpdater.channel = settings.channel === 'stable' ? 'latest' : settings.channel
+  autoUpdater.allowPrerelease = settings.channel !== 'stable'
+  // Leaving a prerelease for stable means the newest stable build can be older than this one
+  autoUpdater.allowDowngrade = settings.channel === 'stable' && isPrerelease
+  // Downloads start from 'update-available' once the skip and pin rules pass
+  autoUpdater.autoDownload = false
+}
+
+/**
+ * Decide whether an offered version is ruled out by the user's update settings
+ */
+function getSkipReason(version: string, settings: UpdateSettings): SkipReason | null {
+  if (settings.skippedVersions.includes(version)) return 'skipped'
+  if (
+    settings.pinnedVersion &&
+    !semver.satisfies(version, `~${settings.pinnedVersion}`, {
+      includePrerelease: settings.channel !== 'stable'
+    })
+  ) {
+    return 'pinned'
+  }
+  return null
+}
+
+function clearRetry(): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer)
+    retryTimer = null
+  }
+}
+
+/**
+ * Collect the notes for every version after the installed one up to `info.version`
+ */
+function getReleaseNotes(info: UpdateInfo): ReleaseNotes {
+  const installed = app.getVersion()
+  const { releaseNotes: notes } = info
+
+  let entries: ReleaseNotes['entries'] = []
+  if (Array.isArray(notes)) {
+    // fullChangelog gives one entry per release
+    entries = notes
+      .filter((entry) => entry.note && semver.valid(entry.version))
+      .filter(
+        (entry) =>
+          semver.lte(entry.version, info.version) &&
+          (semver.gt(entry.version, installed) || entry.version === info.version)
+      )
+      .sort((a, b) => semver.rcompare(a.version, b.version))
+      .map((entry) => ({ version: entry.version, note: entry.note as string }))
+  } else if (notes) {
+    entries = [{ version: info.version, note: notes }]
+  }
+
+  return { version: info.version, releaseName: info.releaseName ?? null, entries }
+}
+
+function recordCheck(record: Omit<UpdateCheckRecord, 'checkedAt'>): void {
+  updateSettings('updates', { lastCheck: { ...record, checkedAt: Date.now() } })
+}
+
+// Unpackaged builds only talk to a feed when one is set explicitly
+function canCheckForUpdates(): boolean {
+  return !is.dev || getUpdateFeedOverride() !== null
+}
+
+async function checkForUpdates(): Promise<void> {
+  clearRetry()
+  lastOperation = 'check'
+  updateLog.info(`Checking for updates (channel: ${getSettings().updates.channel})`)
+  await feedReady
+  await autoUpdater.checkForUpdates()
+}
+
+function startDownload(): void {
+  clearRetry()
+  lastOperation = 'download'
+  const { CancellationToken } = electronUpdater
+  downloadCancellation = new CancellationToken()
+  downloadSettled = autoUpdater.downloadUpdate(downloadCancellation).then(
+    () => undefined,
+    () => undefined
+  )
+}
+
+/**
+ * Add a version to the skip list and drop any download or pending install of it
+ */
+function skipVersion(version: string): UpdateSettings {
+  const current = getSettings().updates
+  const { updates } = updateSettings('updates', {
+    skippedVersions: current.skippedVersions.includes(version)
+      ? current.skippedVersions
+      : [...current.skippedVersions, version]
+  })
+
+  if (pendingVersion === version) {
+    // A queued retry would start the skipped download again
+    clearRetry()
+    if (downloadCancellation) {
+      cancellingDownload = true
+      downloadCancellation.cancel()
+      downloadCancellation = null
+      downloadSettled.then(() => {
+        cancellingDownload = false
+      })
+    }
+    autoUpdater.autoInstallOnAppQuit = false
+    sendStatus({ state: 'skipped', version, reason: 'skipped' })
+  }
+  return updates
+}
+
+/**
+ * Register updater event handlers and IPC handlers
+ */
+export function setupAutoUpdater(): void {
+  // Every check is recorded in the rotating updater log
+  autoUpdater.logger = updateLog
+  // Ask for notes of every release since the installed one, not just the latest
+  autoUpdater.fullChangelog = true
+
+  if (is.dev) {
+    // Force dev update config for development testing
+    autoUpdater.forceDevUpdateConfig = true
+  }
+
+  // Point at a local or generic feed for offline testing
+  const feedOverride = getUpdateFeedOverride()
+  if (feedOverride) {
+    // Unpackaged builds ignore feeds unless dev config is forced
+    autoUpdater.forceDevUpdateConfig = true
+    feedReady = resolveUpdateFeed(feedOverride).then((url) => {
+      updateLog.info('Using update feed:', url)
+      autoUpdater.setFeedURL({ provider: 'generic', url })
+    })
+    feedReady.catch((err: Error) => {
+      updateLog.error('Update feed unavailable:', err.message)
+      sendStatus({ state: 'error', kind: 'unknown', message: err.message })
+    })
+  }
+
+  applyUpdateSettings(getSettings().updates)
+
+  autoUpdater.on('checking-for-update', () => {
+    sendStatus({ state: 'checking' })
+  })
+
+  autoUpdater.on('update-available', (info) => {
+    retryAttempt = 0
+    pendingVersion = info.version
+    releaseNotes = getReleaseNotes(info)
+
+    const skipReason = getSkipReason(info.version, getSettings().updates)
+    if (skipReason) {
+      updateLog.info(`Ignoring update ${info.version} (${skipReason})`)
+      recordCheck({ result: 'skipped', version: info.version })
+      sendStatus({ state: 'skipped', version: info.version, reason: skipReason })
+      return
+    }
+
+    recordCheck({ result: 'available', version: info.version })
+    const downgrade = semver.lt(info.version, app.getVersion())
+    sendStatus({
+      state: 'available',
+      version: info.version,
+      releaseDate: info.releaseDate,
+      downgrade
+    })
+
+    // Downgrades wait for confirmation from the banner
+    if (!downgrade) {
+      startDownload()
+    }
+  })
+
+  autoUpdater.on('update-not-available', (info) => {
+    retryAttempt = 0
+    recordCheck({ result: 'not-available', version: info.version })
+    releaseNotes = getReleaseNotes(info)
+    sendStatus({ state: 'not-available', version: info.version })
+  })
+
+  autoUpdater.on('download-progress', (progress) => {
+    sendStatus({
+      state: 'downloading',
+      version: pendingVersion ?? '',
+      percent: progress.percent,
+      bytesPerSecond: progress.bytesPerSecond,
+      transferred: progress.transferred,
+      total: progress.total
+    })
+  })
+
+  autoUpdater.on('update-downloaded', (info) => {
+    retryAttempt = 0
+    downloadCancellation = null
+    releaseNotes = getReleaseNotes(info)
+    autoUpdater.autoInstallOnAppQuit = true
+    sendStatus({ state: 'downloaded', version: info.version, install: 'prompt' })
+  })
+
+  autoUpdater.on('error', (err) => {
+    // A download dropped on purpose has not failed, and must not replace the skipped status
+    if (err.name === 'CancellationError' || cancellingDownload) {
+      updateLog.info(`Update ${lastOperation} cancelled:`, err.message)
+      return
+    }
+
+    const kind = classifyUpdateError(err)
+    updateLog.error(`Update ${lastOperation} failed (${kind}):`, err.message)
+    if (lastOperation === 'check') {
+      recordCheck({ result: 'error', message: err.message })
+    }
+
+    // Only network failures are worth retrying on their own
+    if (kind === 'network' && retryAttempt < MAX_RETRIES) {
+      const delay = RETRY_BASE_DELAY * 2 ** retryAttempt
+      const operation = lastOperation
+      retryAttempt++
+      updateLog.info(`Retrying ${operation} in ${delay / 1000}s (attempt ${retryAttempt})`)
+
+      clearRetry()
+      retryTimer = setTimeout(() => {
+        retryTimer = null
+        if (operation === 'download') {
+          startDownload()
+        } else {
+          checkForUpdates().catch(() => undefined)
+        }
+      }, delay)
+
+      sendStatus({ state: 'error', kind, message: err.message, retryAt: Date.now() + delay })
+      return
+    }
+
+    retryAttempt = 0
+    sendStatus({ state: 'error', kind, message: err.message })
+  })
+
+  ipcMain.handle('get-update-status', () => currentStatus)
+
+  ipcMain.handle('get-release-notes', () => releaseNotes)
+
+  // Results are reported through 'update-status' rather than returned
+  ipcMain.handle('check-for-updates', () => {
+    retryAttempt = 0
+    return checkForUpdates()
+  })
+
+  ipcMain.handle('download-update', () => {
+    startDownload()
+  })
+
+  ipcMain.handle('quit-and-install', () => {
+    installWhenIdle()
+  })
+
+  ipcMain.handle('set-install-policy', (_, policy: InstallPolicy, snoozeHours?: number) => {
+    if (
+      snoozeHours !== undefined &&
+      (!Number.isFinite(snoozeHours) || snoozeHours <= 0 || snoozeHours > MAX_SNOOZE_HOURS)
+    ) {
+      throw new Error(`Snooze must be more than 0 and at most ${MAX_SNOOZE_HOURS} hours`)
+    }
+
+    applyInstallPolicy(policy, snoozeHours)
+  })
+
+  ipcMain.on('generation-state', (_, isGenerating: boolean) => {
+    isRendererGenerating = isGenerating
+    // A restart that was held for a render can go ahead now
+    if (
+      !isGenerating &&
+      currentStatus.state === 'downloaded' &&
+      currentStatus.install === 'waiting'
+    ) {
+      installWhenIdle()
+    }
+  })
+
+  ipcMain.handle('get-update-settings', () => getSettings().updates)
+
+  ipcMain.handle('set-update-channel', (_, channel: UpdateChannel) => {
+    if (!UPDATE_CHANNELS.includes(channel)) {
+      throw new Error(`Unknown update channel: ${channel}`)
+    }
+
+    const { updates } = updateSettings('updates', { channel })
+    applyUpdateSettings(updates)
+    // Look for a build on the new channel right away
+    checkForUpdates().catch(() => undefined)
+    return updates
+  })
+
+  ipcMain.handle('skip-update-version', (_, version: string) => skipVersion(version))
+
+  ipcMain.handle('clear-skipped-versions', () => {
+    return updateSettings('updates', { skippedVersions: [] }).updates
+  })
+
+  ipcMain.handle('set-update-interval', (_, hours: number) => {
+    if (!Number.isFinite(hours) || hours < 0 || hours > MAX_CHECK_INTERVAL) {
+      throw new Error(`Check interval must be between 0 and ${MAX_CHECK_INTERVAL} hours`)
+    }
+
+    const { updates } = updateSettings('updates', { checkIntervalHours: hours })
+    if (canCheckForUpdates()) {
+      scheduleUpdateChecks(hours)
+    }
+    return updates
+  })
+
+  ipcMain.handle('get-update-log', () => readUpdateLog())
+
+  ipcMain.handle('export-update-log', (event) => {
+    return exportUpdateLog(BrowserWindow.fromWebContents(event.sender))
+  })
+
+  ipcMain.handle('set-update-pin', (_, pinnedVersion: string | null) => {
+    if (pinnedVersion !== null && !/^\d+\.\d+$/.test(pinnedVersion)) {
+      throw new Error(`Pin must look like major.minor, got: ${pinnedVersion}`)
+    }
+    return updateSettings('updates', { pinnedVersion }).updates
+  })
+}
+
+/**
+ * Re-check in the background every `hours`, or stop when it is 0
+ */
+function scheduleUpdateChecks(hours: number): void {
+  if (checkInterval) {
+    clearInterval(checkInterval)
+    checkInterval = null
+  }
+  if (hours <= 0) return
+
+  checkInterval = setInterval(
+    () => {
+      // Leave an update that is already on its way alone
+      if (currentStatus.state === 'downloading' || currentStatus.state === 'downloaded') return
+      checkForUpdates().catch(() => undefined)
+    },
+    hours * 60 * 60 * 1000
+  )
+}
+
+/**
+ * Check once the window is up, then on the configured interval
+ * (skipped in development unless a feed is set)
+ */
+export function startUpdateChecks(delay = 3000): void {
+  if (!canCheckForUpdates()) return
+
+  setTimeout(() => {
+    // Failures are reported through the 'error' event
+    checkForUpdates().catch(() => undefined)
+  }, delay)
+  scheduleUpdateChecks(getSettings().updates.checkIntervalHours)
+}
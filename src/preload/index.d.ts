@@ -1,12 +1,275 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
 
+export type UpdateChannel = 'stable' | 'beta' | 'alpha'
+
+export interface UpdateSettings {
+  channel: UpdateChannel
+  skippedVersions: string[]
+  /** Only accept updates within this major.minor line, e.g. "1.2" */
+  pinnedVersion: string | null
+  /** Background check interval, 0 turns periodic checks off */
+  checkIntervalHours: number
+  lastCheck: UpdateCheckRecord | null
+}
+
+export interface UpdateCheckRecord {
+  checkedAt: number
+  result: 'available' | 'not-available' | 'skipped' | 'error'
+  version?: string
+  message?: string
+}
+
+export interface AppSettings {
+  updates: UpdateSettings
+  automation: AutomationSettings
+  generation: GenerationSettings
+}
+
+export interface GenerationSettings {
+  /** Scene images requested at once, 1-8 */
+  imageConcurrency: number
+}
+
+export interface AutomationSettings {
+  enabled: boolean
+  port: number
+  token: string | null
+}
+
+export interface AutomationStatus extends AutomationSettings {
+  url: string
+  listening: boolean
+  error: string | null
+}
+
+/** Raw release notes, newest first; each note may be HTML or markdown */
+export interface ReleaseNotes {
+  version: string
+  releaseName: string | null
+  entries: { version: string; note: string }[]
+}
+
+export type InstallPolicy = 'now' | 'on-quit' | 'snooze'
+
+/** What happens to a downloaded update: ask, wait for the render, or install later */
+export type InstallState = 'prompt' | 'waiting' | 'on-quit' | 'snoozed'
+
+export type SkipReason = 'skipped' | 'pinned'
+
+/** 'checksum' also covers code signature failures, 'disk' covers permission errors */
+export type UpdateErrorKind = 'network' | 'checksum' | 'disk' | 'no-release' | 'unknown'
+
+export type UpdateStatus =
+  | { state: 'idle' }
+  | { state: 'checking' }
+  | { state: 'available'; version: string; releaseDate?: string; downgrade: boolean }
+  | { state: 'not-available'; version: string }
+  | { state: 'skipped'; version: string; reason: SkipReason }
+  | {
+      state: 'downloading'
+      version: string
+      percent: number
+      bytesPerSecond: number
+      transferred: number
+      total: number
+    }
+  | { state: 'downloaded'; version: string; install: InstallState; snoozedUntil?: number }
+  | { state: 'error'; kind: UpdateErrorKind; message: string; retryAt?: number }
+
+export type ApiProvider = 'gemini' | 'cloudflare'
+
+/** Providers that can be tested; TTSFM needs no key */
+export type ConnectionTarget = ApiProvider | 'tts'
+
+export interface ApiCredentials {
+  gemini: { apiKey: string }
+  cloudflare: { accountId: string; apiToken: string }
+}
+
+/** What the renderer may know about stored keys; secrets stay in the main process */
+export interface ApiKeyStatus {
+  encryptionAvailable: boolean
+  gemini: { configured: boolean; hint: string | null }
+  cloudflare: { configured: boolean; hint: string | null; accountId: string | null }
+}
+
+export interface ConnectionTestResult {
+  ok: boolean
+  message: string
+}
+
+/** manifest.json of a .autovid bundle; `project` is a Project as JSON */
+export interface ProjectBundleManifest {
+  format: 'autovid-project'
+  bundleVersion: number
+  /** Project store schema the project was saved under */
+  schemaVersion: number
+  appVersion: string
+  exportedAt: string
+  project: Record<string, unknown>
+}
+
+/** A new project from outside the dashboard: the command line or the automation API */
+export interface ProjectSpec {
+  name: string
+  topic: string
+  sceneCount: number
+  /** Target length in minutes, as on the dashboard */
+  duration: number
+  aspectRatio: '16:9' | '9:16' | '1:1'
+  captionTemplate: 'karaoke' | 'word-by-word' | 'sentence' | 'minimal'
+  voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
+  /** Speaking rate, 1 is normal */
+  speed: number
+  /** Download format of the voice clips; the voiceover is always saved as WAV */
+  voiceFormat: 'mp3' | 'wav' | 'flac' | 'opus'
+}
+
+/** A `autovid render` command-line job, run in a hidden window */
+export interface RenderJob extends ProjectSpec {
+  outputPath: string
+}
+
+export type AutomationArtifact = 'script' | 'captions' | 'audio' | 'video'
+
+/** A project as the automation API returns it */
+export interface AutomationProject {
+  id: string
+  name: string
+  topic: string
+  status: string
+  sceneCount: number
+  aspectRatio: string
+  /** Only while this project's pipeline is running */
+  progress: { step: string; current: number; total: number; message: string } | null
+  /** 1-based place in the render queue while waiting to start */
+  queuePosition: number | null
+  artifacts: AutomationArtifact[]
+  createdAt: string
+  updatedAt: string
+}
+
+/** Requests the automation API forwards to the renderer, which owns the project store */
+export type AutomationCommand =
+  | { type: 'list-projects' }
+  | { type: 'get-project'; projectId: string }
+  | { type: 'create-project'; spec: ProjectSpec; start: boolean }
+  | { type: 'start-project'; projectId: string }
+  | { type: 'get-artifact'; projectId: string; artifact: AutomationArtifact }
+
+/** Artifacts come back as text, or as an asset URL the main process reads from disk */
+export type AutomationArtifactData =
+  | { type: 'text'; text: string; contentType: string }
+  | { type: 'asset'; url: string; contentType: string }
+
+export type AutomationResult =
+  | { ok: true; data: unknown }
+  | { ok: false; status: number; error: string }
+
+/** What the headless renderer reports back; the main process prints each as a JSON line */
+export type RenderEvent =
+  | { type: 'progress'; step: string; current: number; total: number; message: string }
+  | { type: 'complete'; projectId: string; videoUrl: string }
+  | { type: 'error'; message: string; projectId?: string }
+
+/** Request bodies the HTTP gateway can carry over IPC; form files travel as bytes */
+export type GatewayBody =
+  | { type: 'text'; data: string }
+  | { type: 'bytes'; data: Uint8Array }
+  | { type: 'form'; fields: GatewayFormField[] }
+
+export type GatewayFormField =
+  | { name: string; value: string }
+  | { name: string; data: Uint8Array; filename: string; contentType: string }
+
+export interface GatewayRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body?: GatewayBody
+  /** Stored credentials the main process adds to the request */
+  credential?: ApiProvider
+}
+
+export interface GatewayResponseHead {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+}
+
+/** Response body pushed after the head, chunk by chunk */
+export type GatewayBodyEvent =
+  | { type: 'chunk'; data: Uint8Array }
+  | { type: 'end' }
+  | { type: 'error'; message: string }
+
 declare global {
   interface Window {
     electron: ElectronAPI
     api: {
-      checkForUpdates: () => Promise<any>
-      downloadUpdate: () => Promise<any>
+      getAppVersion: () => Promise<string>
+      writeProjectAsset: (
+        projectId: string,
+        name: string,
+        data: Uint8Array | string
+      ) => Promise<string>
+      deleteProjectAssets: (projectId: string) => Promise<void>
+      exportProjectBundle: (
+        project: Record<string, unknown>,
+        schemaVersion: number
+      ) => Promise<string | null>
+      importProjectBundle: (
+        schemaVersion: number,
+        filePath?: string
+      ) => Promise<ProjectBundleManifest | null>
+      takePendingBundles: () => Promise<string[]>
+      onProjectBundlesPending: (callback: () => void) => () => void
+      getRenderJob: () => Promise<RenderJob | null>
+      getAutomationStatus: () => Promise<AutomationStatus>
+      setAutomationEnabled: (enabled: boolean) => Promise<AutomationStatus>
+      setAutomationPort: (port: number) => Promise<AutomationStatus>
+      regenerateAutomationToken: () => Promise<AutomationStatus>
+      getGenerationSettings: () => Promise<GenerationSettings>
+      setImageConcurrency: (imageConcurrency: number) => Promise<GenerationSettings>
+      onAutomationCommand: (
+        callback: (requestId: string, command: AutomationCommand) => void
+      ) => () => void
+      respondAutomationCommand: (requestId: string, result: AutomationResult) => void
+      reportRenderEvent: (event: RenderEvent) => void
+      exportProjectAsset: (
+        projectId: string,
+        name: string,
+        defaultName: string
+      ) => Promise<string | null>
+      httpRequest: (
+        requestId: string,
+        request: GatewayRequest,
+        onBody: (event: GatewayBodyEvent) => void
+      ) => Promise<GatewayResponseHead>
+      cancelHttpRequest: (requestId: string) => Promise<void>
+      getApiKeyStatus: () => Promise<ApiKeyStatus>
+      setApiCredentials: <P extends ApiProvider>(
+        provider: P,
+        credentials: ApiCredentials[P]
+      ) => Promise<ApiKeyStatus>
+      clearApiCredentials: (provider: ApiProvider) => Promise<ApiKeyStatus>
+      testApiConnection: (target: ConnectionTarget) => Promise<ConnectionTestResult>
+      checkForUpdates: () => Promise<void>
+      downloadUpdate: () => Promise<void>
       quitAndInstall: () => Promise<void>
+      setInstallPolicy: (policy: InstallPolicy, snoozeHours?: number) => Promise<void>
+      reportGenerating: (isGenerating: boolean) => void
+      getUpdateStatus: () => Promise<UpdateStatus>
+      onUpdateStatus: (callback: (status: UpdateStatus) => void) => () => void
+      getReleaseNotes: () => Promise<ReleaseNotes | null>
+      getUpdateSettings: () => Promise<UpdateSettings>
+      setUpdateChannel: (channel: UpdateChannel) => Promise<UpdateSettings>
+      skipUpdateVersion: (version: string) => Promise<UpdateSettings>
+      clearSkippedVersions: () => Promise<UpdateSettings>
+      setUpdatePin: (pinnedVersion: string | null) => Promise<UpdateSettings>
+      setUpdateInterval: (hours: number) => Promise<UpdateSettings>
+      getUpdateLog: () => Promise<string>
+      exportUpdateLog: () => Promise<string | null>
     }
   }
 }
@@ -1,12 +1,126 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
+import type {
+  ApiCredentials,
+  ApiProvider,
+  AutomationCommand,
+  AutomationResult,
+  ConnectionTarget,
+  GatewayBodyEvent,
+  GatewayRequest,
+  InstallPolicy,
+  RenderEvent,
+  UpdateChannel,
+  UpdateStatus
+} from './index.d'
 
 // Custom APIs for renderer
 const api = {
+  getAppVersion: () => ipcRenderer.invoke('get-app-version'),
+
+  // Project asset APIs
+  writeProjectAsset: (projectId: string, name: string, data: Uint8Array | string) =>
+    ipcRenderer.invoke('write-project-asset', projectId, name, data),
+  deleteProjectAssets: (projectId: string) =>
+    ipcRenderer.invoke('delete-project-assets', projectId),
+  exportProjectAsset: (projectId: string, name: string, defaultName: string) =>
+    ipcRenderer.invoke('export-project-asset', projectId, name, defaultName),
+
+  // Project bundle APIs
+  exportProjectBundle: (project: Record<string, unknown>, schemaVersion: number) =>
+    ipcRenderer.invoke('export-project-bundle', project, schemaVersion),
+  importProjectBundle: (schemaVersion: number, filePath?: string) =>
+    ipcRenderer.invoke('import-project-bundle', schemaVersion, filePath),
+  takePendingBundles: () => ipcRenderer.invoke('take-pending-bundles'),
+  onProjectBundlesPending: (callback: () => void) => {
+    const listener = (): void => callback()
+    ipcRenderer.on('project-bundles-pending', listener)
+    return () => {
+      ipcRenderer.removeListener('project-bundles-pending', listener)
+    }
+  },
+
+  // Headless render APIs, used when launched as `autovid render`
+  getRenderJob: () => ipcRenderer.invoke('get-render-job'),
+  reportRenderEvent: (event: RenderEvent) => ipcRenderer.send('render-event', event),
+
+  // Automation API; requests are forwarded here because the project store lives in the renderer
+  getAutomationStatus: () => ipcRenderer.invoke('get-automation-status'),
+  setAutomationEnabled: (enabled: boolean) => ipcRenderer.invoke('set-automation-enabled', enabled),
+  setAutomationPort: (port: number) => ipcRenderer.invoke('set-automation-port', port),
+  regenerateAutomationToken: () => ipcRenderer.invoke('regenerate-automation-token'),
+  onAutomationCommand: (callback: (requestId: string, command: AutomationCommand) => void) => {
+    const listener = (
+      _event: IpcRendererEvent,
+      requestId: string,
+      command: AutomationCommand
+    ): void => callback(requestId, command)
+    ipcRenderer.on('automation-command', listener)
+    return () => {
+      ipcRenderer.removeListener('automation-command', listener)
+    }
+  },
+  respondAutomationCommand: (requestId: string, result: AutomationResult) =>
+    ipcRenderer.send('automation-response', requestId, result),
+
+  // Generation settings APIs
+  getGenerationSettings: () => ipcRenderer.invoke('get-generation-settings'),
+  setImageConcurrency: (imageConcurrency: number) =>
+    ipcRenderer.invoke('set-image-concurrency', imageConcurrency),
+
+  // HTTP gateway APIs; the body listener is attached before the request starts
+  httpRequest: (
+    requestId: string,
+    request: GatewayRequest,
+    onBody: (event: GatewayBodyEvent) => void
+  ) => {
+    const listener = (_event: IpcRendererEvent, id: string, body: GatewayBodyEvent): void => {
+      if (id !== requestId) return
+      if (body.type !== 'chunk') ipcRenderer.removeListener('http-body', listener)
+      onBody(body)
+    }
+    ipcRenderer.on('http-body', listener)
+    return ipcRenderer.invoke('http-request', requestId, request).catch((error) => {
+      ipcRenderer.removeListener('http-body', listener)
+      throw error
+    })
+  },
+  cancelHttpRequest: (requestId: string) => ipcRenderer.invoke('http-cancel', requestId),
+
+  // API key APIs; only status comes back, never the keys
+  getApiKeyStatus: () => ipcRenderer.invoke('get-api-key-status'),
+  setApiCredentials: <P extends ApiProvider>(provider: P, credentials: ApiCredentials[P]) =>
+    ipcRenderer.invoke('set-api-credentials', provider, credentials),
+  clearApiCredentials: (provider: ApiProvider) =>
+    ipcRenderer.invoke('clear-api-credentials', provider),
+  testApiConnection: (target: ConnectionTarget) =>
+    ipcRenderer.invoke('test-api-connection', target),
+
   // Auto-updater APIs
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   downloadUpdate: () => ipcRenderer.invoke('download-update'),
-  quitAndInstall: () => ipcRenderer.invoke('quit-and-install')
+  quitAndInstall: () => ipcRenderer.invoke('quit-and-install'),
+  setInstallPolicy: (policy: InstallPolicy, snoozeHours?: number) =>
+    ipcRenderer.invoke('set-install-policy', policy, snoozeHours),
+  reportGenerating: (isGenerating: boolean) => ipcRenderer.send('generation-state', isGenerating),
+  getUpdateStatus: () => ipcRenderer.invoke('get-update-status'),
+  onUpdateStatus: (callback: (status: UpdateStatus) => void) => {
+    const listener = (_event: IpcRendererEvent, status: UpdateStatus): void => callback(status)
+    ipcRenderer.on('update-status', listener)
+    return () => {
+      ipcRenderer.removeListener('update-status', listener)
+    }
+  },
+  getReleaseNotes: () => ipcRenderer.invoke('get-release-notes'),
+  getUpdateSettings: () => ipcRenderer.invoke('get-update-settings'),
+  setUpdateChannel: (channel: UpdateChannel) => ipcRenderer.invoke('set-update-channel', channel),
+  skipUpdateVersion: (version: string) => ipcRenderer.invoke('skip-update-version', version),
+  clearSkippedVersions: () => ipcRenderer.invoke('clear-skipped-versions'),
+  setUpdatePin: (pinnedVersion: string | null) =>
+    ipcRenderer.invoke('set-update-pin', pinnedVersion),
+  setUpdateInterval: (hours: number) => ipcRenderer.invoke('set-update-interval', hours),
+  getUpdateLog: () => ipcRenderer.invoke('get-update-log'),
+  exportUpdateLog: () => ipcRenderer.invoke('export-update-log')
 }
 
 // Use `contextBridge` APIs to expose Electron APIs to
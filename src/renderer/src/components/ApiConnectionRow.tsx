@@ -0,0 +1,169 @@
+/**
+ * ApiConnectionRow - One provider in Settings: key entry, rotation and a live connection test
+ */
+import { useState } from 'react'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { Loading01Icon } from '@hugeicons/core-free-icons'
+import type { ConnectionTarget, ConnectionTestResult } from '../types'
+
+export interface ApiKeyField {
+    key: string
+    label: string
+    secret: boolean
+    // Shown pre-filled when editing; secrets never are
+    value?: string | null
+}
+
+interface ApiConnectionRowProps {
+    name: string
+    description: string
+    target: ConnectionTarget
+    configured: boolean
+    hint?: string | null
+    fields?: ApiKeyField[]
+    onSave?: (values: Record<string, string>) => Promise<void>
+    onClear?: () => Promise<void>
+}
+
+export function ApiConnectionRow({
+    name,
+    description,
+    target,
+    configured,
+    hint,
+    fields,
+    onSave,
+    onClear
+}: ApiConnectionRowProps): React.JSX.Element {
+    const [isEditing, setIsEditing] = useState(false)
+    const [values, setValues] = useState<Record<string, string>>({})
+    const [isSaving, setIsSaving] = useState(false)
+    const [isTesting, setIsTesting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null)
+
+    const startEditing = (): void => {
+        setValues(Object.fromEntries((fields || []).map((field) => [field.key, field.value || ''])))
+        setError(null)
+        setIsEditing(true)
+    }
+
+    const handleSave = async (): Promise<void> => {
+        if (!onSave) return
+        setIsSaving(true)
+        setError(null)
+        try {
+            await onSave(values)
+            setIsEditing(false)
+            setTestResult(null)
+        } catch (e) {
+            setError((e as Error).message)
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleClear = async (): Promise<void> => {
+        if (!onClear || !confirm(`Remove the stored ${name} keys?`)) return
+        await onClear()
+        setTestResult(null)
+    }
+
+    const handleTest = async (): Promise<void> => {
+        setIsTesting(true)
+        setTestResult(null)
+        try {
+            setTestResult(await window.api.testApiConnection(target))
+        } finally {
+            setIsTesting(false)
+        }
+    }
+
+    const badge = testResult
+        ? testResult.ok
+            ? { label: 'Connected', className: 'bg-emerald-100 text-emerald-700' }
+            : { label: 'Failed', className: 'bg-red-100 text-red-700' }
+        : configured
+            ? { label: fields ? `Saved ${hint || ''}`.trim() : 'Not tested', className: 'bg-slate-200 text-slate-600' }
+            : { label: 'Not set up', className: 'bg-amber-100 text-amber-700' }
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl">
+            <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                    <p className="font-semibold text-slate-900">{name}</p>
+                    <p className="text-xs text-slate-500">{description}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <span className={`px-3 py-1 text-xs font-semibold rounded-full ${badge.className}`}>{badge.label}</span>
+                    {configured && (
+                        <button
+                            onClick={handleTest}
+                            disabled={isTesting}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-60"
+                        >
+                            {isTesting && <HugeiconsIcon icon={Loading01Icon} className="w-3.5 h-3.5 animate-spin" />}
+                            Test connection
+                        </button>
+                    )}
+                    {fields && !isEditing && (
+                        <button
+                            onClick={startEditing}
+                            className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                        >
+                            {configured ? 'Change key' : 'Add key'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {testResult && (
+                <p className={`text-xs mt-2 break-words ${testResult.ok ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {testResult.message}
+                </p>
+            )}
+
+            {isEditing && fields && (
+                <div className="mt-4 space-y-3">
+                    {fields.map((field) => (
+                        <div key={field.key}>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">{field.label}</label>
+                            <input
+                                type={field.secret ? 'password' : 'text'}
+                                value={values[field.key] || ''}
+                                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                                autoComplete="off"
+                                spellCheck={false}
+                                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 outline-none bg-white"
+                            />
+                        </div>
+                    ))}
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="gradient-btn px-3 py-1.5 text-white text-xs font-semibold rounded-lg"
+                        >
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                        <button
+                            onClick={() => setIsEditing(false)}
+                            className="px-3 py-1.5 text-slate-600 text-xs font-semibold rounded-lg hover:bg-slate-100"
+                        >
+                            Cancel
+                        </button>
+                        {configured && onClear && (
+                            <button
+                                onClick={handleClear}
+                                className="ml-auto px-3 py-1.5 text-red-600 text-xs font-semibold rounded-lg hover:bg-red-50"
+                            >
+                                Remove
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
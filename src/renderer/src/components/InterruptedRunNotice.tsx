@@ -0,0 +1,71 @@
+/**
+ * InterruptedRunNotice - Resume or redo a pipeline that was cancelled or the app closed in the middle of
+ */
+import { HugeiconsIcon } from '@hugeicons/react'
+import { Alert02Icon, PlayIcon, RefreshIcon } from '@hugeicons/core-free-icons'
+import { useProjectStore } from '../stores/ProjectStore'
+import type { Project, ProjectStatus } from '../types'
+
+const INTERRUPTED_STEPS: Partial<Record<ProjectStatus, { during: string; step: string }>> = {
+    generating_script: { during: 'writing the script', step: 'script' },
+    generating_images: { during: 'generating images', step: 'images' },
+    generating_audio: { during: 'recording the voiceover', step: 'voiceover' },
+    generating_captions: { during: 'creating captions', step: 'captions' },
+    composing_video: { during: 'composing the video', step: 'video' }
+}
+
+interface InterruptedRunNoticeProps {
+    project: Project
+    // Called after the project is set back to draft, e.g. to open it in the editor
+    onRestart?: (project: Project) => void
+    showName?: boolean
+}
+
+export function InterruptedRunNotice({ project, onRestart, showName }: InterruptedRunNoticeProps): React.JSX.Element {
+    const { resumeProject, resetInterruptedStep } = useProjectStore()
+    const step = project.interruptedStatus ? INTERRUPTED_STEPS[project.interruptedStatus] : undefined
+    const during = step?.during ?? 'the pipeline was running'
+    const cancelled = project.status === 'cancelled'
+
+    const restart = async (action: (projectId: string) => void | Promise<void>): Promise<void> => {
+        await action(project.id)
+        const restarted = useProjectStore.getState().projects.find((p) => p.id === project.id)
+        if (restarted) onRestart?.(restarted)
+    }
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-amber-50 border border-amber-100 rounded-xl">
+            <div className="flex items-center gap-3 min-w-0">
+                <HugeiconsIcon icon={Alert02Icon} className="w-5 h-5 text-amber-600 shrink-0" />
+                <div className="min-w-0">
+                    <p className="font-semibold text-amber-900 truncate">
+                        {showName ? project.name : cancelled ? 'This render was cancelled' : 'This render was interrupted'}
+                    </p>
+                    <p className="text-xs text-amber-700">
+                        {cancelled ? 'Cancelled' : 'AutoVid closed'} while {during}. Finished steps are kept.
+                    </p>
+                </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+                {step && (
+                    <button
+                        onClick={() => restart(resetInterruptedStep)}
+                        title={`Discard the partial ${step.step} and everything after it`}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-amber-200 bg-white text-amber-800 text-xs font-semibold rounded-lg hover:bg-amber-100"
+                    >
+                        <HugeiconsIcon icon={RefreshIcon} className="w-3.5 h-3.5" />
+                        Redo {step.step}
+                    </button>
+                )}
+                <button
+                    onClick={() => restart(resumeProject)}
+                    title="Continue from the last completed step, reusing saved assets"
+                    className="gradient-btn inline-flex items-center gap-1.5 px-3 py-1.5 text-white text-xs font-semibold rounded-lg"
+                >
+                    <HugeiconsIcon icon={PlayIcon} className="w-3.5 h-3.5" />
+                    Resume
+                </button>
+            </div>
+        </div>
+    )
+}
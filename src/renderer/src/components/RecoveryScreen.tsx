@@ -0,0 +1,94 @@
+/**
+ * RecoveryScreen - Shown instead of the dashboard when saved projects can't be loaded
+ */
+import { HugeiconsIcon } from '@hugeicons/react'
+import { AlertCircleIcon, Download04Icon, RefreshIcon } from '@hugeicons/core-free-icons'
+import { PROJECTS_STORE_NAME } from '../stores/projectMigrations'
+import type { StoreRecovery } from '../stores/RecoveryStore'
+
+interface RecoveryScreenProps {
+    recovery: StoreRecovery
+}
+
+function downloadText(text: string, filename: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+export function RecoveryScreen({ recovery }: RecoveryScreenProps): React.JSX.Element {
+    const savedData = localStorage.getItem(PROJECTS_STORE_NAME)
+    const backupData = recovery.backupKey ? localStorage.getItem(recovery.backupKey) : null
+    const date = new Date().toISOString().slice(0, 10)
+
+    const handleStartFresh = (): void => {
+        if (!confirm('Start with an empty project list? Your saved data stays available as a backup until you clear it.')) {
+            return
+        }
+        // Keep a copy of what couldn't be read before clearing it
+        if (savedData !== null) {
+            localStorage.setItem(`${PROJECTS_STORE_NAME}-unreadable-${Date.now()}`, savedData)
+        }
+        localStorage.removeItem(PROJECTS_STORE_NAME)
+        window.location.reload()
+    }
+
+    return (
+        <div className="flex-1 flex items-center justify-center p-6">
+            <div className="card p-8 w-full max-w-lg animate-slide-up">
+                <div className="w-12 h-12 bg-red-100 rounded-xl flex items-center justify-center mb-4">
+                    <HugeiconsIcon icon={AlertCircleIcon} className="w-6 h-6 text-red-600" />
+                </div>
+                <h1 className="text-xl font-bold text-slate-900 mb-1">Your projects couldn&apos;t be loaded</h1>
+                <p className="text-sm text-slate-500 mb-4">
+                    AutoVid could not upgrade your saved projects to this version. Nothing has been changed or deleted.
+                </p>
+
+                <pre className="text-xs bg-slate-50 border border-slate-200 rounded-xl p-3 mb-5 whitespace-pre-wrap break-words text-slate-600">
+                    {recovery.message}
+                </pre>
+
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={() => window.location.reload()}
+                        className="gradient-btn inline-flex items-center gap-1.5 px-4 py-2 text-white text-sm font-semibold rounded-xl"
+                    >
+                        <HugeiconsIcon icon={RefreshIcon} className="w-4 h-4" />
+                        Try again
+                    </button>
+                    {savedData !== null && (
+                        <button
+                            onClick={() => downloadText(savedData, `autovid-projects-${date}.json`)}
+                            className="inline-flex items-center gap-1.5 px-4 py-2 border border-slate-200 text-slate-700 text-sm font-semibold rounded-xl hover:bg-slate-50"
+                        >
+                            <HugeiconsIcon icon={Download04Icon} className="w-4 h-4" />
+                            Export saved data
+                        </button>
+                    )}
+                    {backupData !== null && backupData !== savedData && (
+                        <button
+                            onClick={() => downloadText(backupData, `autovid-projects-backup-v${recovery.fromVersion}-${date}.json`)}
+                            className="inline-flex items-center gap-1.5 px-4 py-2 border border-slate-200 text-slate-700 text-sm font-semibold rounded-xl hover:bg-slate-50"
+                        >
+                            <HugeiconsIcon icon={Download04Icon} className="w-4 h-4" />
+                            Export backup
+                        </button>
+                    )}
+                    <button
+                        onClick={handleStartFresh}
+                        className="px-4 py-2 text-sm font-semibold text-red-600 rounded-xl hover:bg-red-50"
+                    >
+                        Start fresh
+                    </button>
+                </div>
+
+                <p className="text-xs text-slate-400 mt-4">
+                    If this started after an update, installing the previous version will read your projects again.
+                </p>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,95 @@
+/**
+ * ReleaseNotesPanel - Sanitized release notes for every version since the installed one
+ */
+import { useEffect, useState } from 'react'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { Cancel01Icon, Loading01Icon } from '@hugeicons/core-free-icons'
+import { marked } from 'marked'
+import DOMPurify from 'dompurify'
+import { useUpdateStore } from '../stores/UpdateStore'
+import type { ReleaseNotes } from '../types'
+
+// Links open in the system browser through the main window's open handler
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName === 'A') {
+        node.setAttribute('target', '_blank')
+        node.setAttribute('rel', 'noopener noreferrer')
+    }
+})
+
+function renderNote(note: string): string {
+    // GitHub releases arrive as HTML, generic feeds usually as markdown
+    const html = /^\s*</.test(note) ? note : (marked.parse(note, { async: false }) as string)
+    return DOMPurify.sanitize(html)
+}
+
+export function ReleaseNotesPanel(): React.JSX.Element | null {
+    const { releaseNotesOpen, closeReleaseNotes, status } = useUpdateStore()
+    const [notes, setNotes] = useState<ReleaseNotes | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+
+    useEffect(() => {
+        if (!releaseNotesOpen) return
+        setIsLoading(true)
+        window.api
+            .getReleaseNotes()
+            .then(setNotes)
+            .finally(() => setIsLoading(false))
+    }, [releaseNotesOpen, status.state])
+
+    if (!releaseNotesOpen) return null
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+            onClick={closeReleaseNotes}
+        >
+            <div
+                className="bg-white rounded-2xl p-6 w-full max-w-lg shadow-2xl animate-slide-up max-h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-3 mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900">What&apos;s new</h2>
+                        <p className="text-sm text-slate-500">
+                            {notes ? notes.releaseName || `Version ${notes.version}` : 'Release notes'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={closeReleaseNotes}
+                        className="p-1 text-slate-400 hover:text-slate-600 rounded-lg transition-colors"
+                    >
+                        <HugeiconsIcon icon={Cancel01Icon} className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-auto space-y-5">
+                    {isLoading && !notes && (
+                        <div className="flex items-center gap-2 text-sm text-slate-500">
+                            <HugeiconsIcon icon={Loading01Icon} className="w-4 h-4 animate-spin" />
+                            Loading release notes...
+                        </div>
+                    )}
+
+                    {!isLoading && (!notes || notes.entries.length === 0) && (
+                        <p className="text-sm text-slate-500">
+                            {notes
+                                ? `No release notes were published for version ${notes.version}.`
+                                : 'Check for updates to load the latest release notes.'}
+                        </p>
+                    )}
+
+                    {notes?.entries.map((entry) => (
+                        <section key={entry.version}>
+                            <h3 className="text-sm font-bold text-slate-900 mb-2">Version {entry.version}</h3>
+                            <div
+                                className="release-notes"
+                                dangerouslySetInnerHTML={{ __html: renderNote(entry.note) }}
+                            />
+                        </section>
+                    ))}
+                </div>
+            </div>
+        </div>
+    )
+}
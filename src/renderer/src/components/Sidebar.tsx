@@ -6,9 +6,12 @@ import {
     DashboardSquare01Icon,
     AiVideoIcon,
     Configuration01Icon,
-    PlayIcon
+    PlayIcon,
+    Cancel01Icon
 } from '@hugeicons/core-free-icons'
 import { useProjectStore } from '../stores/ProjectStore'
+import { useRenderQueueStore, getQueuePosition } from '../stores/RenderQueueStore'
+import { renderQueue } from '../services/RenderQueue'
 
 interface SidebarProps {
     currentView: 'dashboard' | 'editor' | 'settings'
@@ -16,7 +19,8 @@ interface SidebarProps {
 }
 
 export function Sidebar({ currentView, onNavigate }: SidebarProps) {
-    const { currentProject } = useProjectStore()
+    const { currentProject, projects, setCurrentProject } = useProjectStore()
+    const jobs = useRenderQueueStore((state) => state.jobs)
 
     const navItems = [
         { id: 'dashboard', label: 'Dashboard', icon: DashboardSquare01Icon },
@@ -28,6 +32,8 @@ export function Sidebar({ currentView, onNavigate }: SidebarProps) {
         switch (status) {
             case 'completed': return { color: 'bg-emerald-500', text: 'Completed' }
             case 'error': return { color: 'bg-red-500', text: 'Error' }
+            case 'interrupted': return { color: 'bg-amber-500', text: 'Interrupted' }
+            case 'cancelled': return { color: 'bg-amber-500', text: 'Cancelled' }
             case 'draft': return { color: 'bg-slate-400', text: 'Draft' }
             default: return { color: 'bg-primary-500 animate-pulse', text: status.replace('_', ' ') }
         }
@@ -76,6 +82,60 @@ export function Sidebar({ currentView, onNavigate }: SidebarProps) {
                 })}
             </nav>
 
+            {/* Render Queue */}
+            {jobs.length > 0 && (
+                <div className="p-4 border-t border-slate-100">
+                    <p className="text-xs text-slate-500 font-semibold uppercase tracking-wider mb-2">
+                        Render Queue
+                    </p>
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {jobs.map((job) => {
+                            const project = projects.find((p) => p.id === job.projectId)
+                            const { progress } = job
+
+                            return (
+                                <div key={job.projectId} className="group p-2.5 bg-slate-50 rounded-lg border border-slate-200/50">
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => {
+                                                if (!project) return
+                                                setCurrentProject(project)
+                                                onNavigate('editor')
+                                            }}
+                                            className="flex-1 min-w-0 text-left"
+                                        >
+                                            <p className="text-xs font-semibold text-slate-900 truncate">{project?.name ?? 'Deleted project'}</p>
+                                            <p className="text-[11px] text-slate-500 truncate">
+                                                {job.state === 'queued'
+                                                    ? `#${getQueuePosition(jobs, job.projectId)} in queue`
+                                                    : job.paused
+                                                        ? 'Paused'
+                                                        : progress?.message ?? 'Starting...'}
+                                            </p>
+                                        </button>
+                                        <button
+                                            onClick={() => renderQueue.remove(job.projectId)}
+                                            title={job.state === 'running' ? 'Cancel' : 'Remove from queue'}
+                                            className="p-1 text-slate-400 rounded-md opacity-0 group-hover:opacity-100 hover:text-red-500 hover:bg-red-50"
+                                        >
+                                            <HugeiconsIcon icon={Cancel01Icon} className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                    {job.state === 'running' && (
+                                        <div className="h-1 mt-2 bg-slate-200 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full bg-primary-500 transition-all duration-300 ${job.paused ? 'opacity-50' : ''}`}
+                                                style={{ width: `${progress && progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            )}
+
             {/* Current Project */}
             {currentProject && (
                 <div className="p-4 border-t border-slate-100">
@@ -0,0 +1,56 @@
+/**
+ * SpeakerPicker - Name, voice and caption colour for each speaker in a dialogue script
+ */
+import { ttsService } from '../services/TTSService'
+import { VoicePreviewButton } from './VoicePicker'
+import type { Speaker, VoiceSettings } from '../types'
+
+interface SpeakerPickerProps {
+    value: Speaker[]
+    onChange: (value: Speaker[]) => void
+    // Speed and format the previews are played with
+    voiceSettings: VoiceSettings
+    disabled?: boolean
+}
+
+export function SpeakerPicker({ value, onChange, voiceSettings, disabled }: SpeakerPickerProps): React.JSX.Element {
+    const updateSpeaker = (id: string, updates: Partial<Speaker>): void => {
+        onChange(value.map((speaker) => (speaker.id === id ? { ...speaker, ...updates } : speaker)))
+    }
+
+    return (
+        <div className="space-y-2">
+            {value.map((speaker) => (
+                <div key={speaker.id} className="flex items-center gap-2">
+                    <input
+                        type="color"
+                        value={speaker.color}
+                        onChange={(e) => updateSpeaker(speaker.id, { color: e.target.value })}
+                        disabled={disabled}
+                        title="Caption colour"
+                        className="w-9 h-9 shrink-0 p-0.5 border border-slate-200 rounded-lg bg-white cursor-pointer"
+                    />
+                    <input
+                        type="text"
+                        value={speaker.name}
+                        onChange={(e) => updateSpeaker(speaker.id, { name: e.target.value })}
+                        disabled={disabled}
+                        placeholder="Name"
+                        className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm disabled:opacity-60"
+                    />
+                    <select
+                        value={speaker.voice}
+                        onChange={(e) => updateSpeaker(speaker.id, { voice: e.target.value })}
+                        disabled={disabled}
+                        className="w-28 px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm disabled:opacity-60"
+                    >
+                        {ttsService.getVoices().map((voice) => (
+                            <option key={voice.id} value={voice.id}>{voice.name}</option>
+                        ))}
+                    </select>
+                    <VoicePreviewButton settings={{ ...voiceSettings, voice: speaker.voice }} />
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,202 @@
+/**
+ * UpdateBanner - Non-modal auto-update status with download progress
+ */
+import { HugeiconsIcon } from '@hugeicons/react'
+import {
+    Download04Icon,
+    Loading01Icon,
+    AlertCircleIcon,
+    RefreshIcon,
+    Cancel01Icon
+} from '@hugeicons/core-free-icons'
+import { useUpdateStore } from '../stores/UpdateStore'
+import { useProjectStore } from '../stores/ProjectStore'
+import { useRenderQueueStore } from '../stores/RenderQueueStore'
+import type { UpdateErrorKind } from '../types'
+
+const snoozeOptions = [1, 4, 8]
+
+const errorTitles: Record<UpdateErrorKind, string> = {
+    network: "Can't reach the update server",
+    checksum: 'Update failed verification',
+    disk: "Can't write the update to disk",
+    'no-release': 'No release found for this channel',
+    unknown: 'Update failed'
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function UpdateBanner(): React.JSX.Element | null {
+    const { status, dismissed, dismiss, openReleaseNotes } = useUpdateStore()
+    const isReRendering = useProjectStore((state) => state.isGenerating)
+    const hasQueuedJobs = useRenderQueueStore((state) => state.jobs.length > 0)
+    const isGenerating = isReRendering || hasQueuedJobs
+
+    if (dismissed) return null
+    if (
+        status.state === 'idle' ||
+        status.state === 'checking' ||
+        status.state === 'not-available' ||
+        status.state === 'skipped'
+    ) {
+        return null
+    }
+    // Deferred installs stay out of the way until they are due
+    if (status.state === 'downloaded' && (status.install === 'on-quit' || status.install === 'snoozed')) {
+        return null
+    }
+
+    const isError = status.state === 'error'
+    const skippableVersion =
+        status.state === 'available' ||
+        status.state === 'downloading' ||
+        (status.state === 'downloaded' && status.install === 'prompt')
+            ? status.version
+            : null
+
+    return (
+        <div className="fixed bottom-5 right-5 z-40 w-80 card p-4 shadow-xl animate-slide-up">
+            <div className="flex items-start gap-3">
+                <div
+                    className={`w-9 h-9 shrink-0 rounded-xl flex items-center justify-center ${isError ? 'bg-red-100' : 'bg-primary-100'}`}
+                >
+                    <HugeiconsIcon
+                        icon={isError ? AlertCircleIcon : status.state === 'downloading' ? Loading01Icon : Download04Icon}
+                        className={`w-5 h-5 ${isError ? 'text-red-600' : 'text-primary-600'} ${status.state === 'downloading' ? 'animate-spin' : ''}`}
+                    />
+                </div>
+
+                <div className="flex-1 min-w-0">
+                    {status.state === 'available' && !status.downgrade && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">Update available</p>
+                            <p className="text-xs text-slate-500">Version {status.version} is downloading in the background</p>
+                        </>
+                    )}
+
+                    {status.state === 'available' && status.downgrade && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">Stable release available</p>
+                            <p className="text-xs text-slate-500">
+                                Version {status.version} is older than this build. Download it to switch back to stable.
+                            </p>
+                            <button
+                                onClick={() => window.api.downloadUpdate()}
+                                className="mt-3 gradient-btn inline-flex items-center gap-1.5 px-3 py-1.5 text-white text-xs font-semibold rounded-lg"
+                            >
+                                <HugeiconsIcon icon={Download04Icon} className="w-3.5 h-3.5" />
+                                Download {status.version}
+                            </button>
+                        </>
+                    )}
+
+                    {status.state === 'downloading' && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">Downloading update</p>
+                            <p className="text-xs text-slate-500">
+                                {formatBytes(status.transferred)} of {formatBytes(status.total)} • {formatBytes(status.bytesPerSecond)}/s
+                            </p>
+                            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-2">
+                                <div
+                                    className="h-full bg-gradient-to-r from-primary-500 to-indigo-500 transition-all duration-300"
+                                    style={{ width: `${status.percent}%` }}
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {status.state === 'downloaded' && status.install === 'prompt' && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">Update ready</p>
+                            <p className="text-xs text-slate-500">
+                                {isGenerating
+                                    ? `Version ${status.version} can install once the current render finishes`
+                                    : `Version ${status.version} will be installed on restart`}
+                            </p>
+                            <button
+                                onClick={() => window.api.setInstallPolicy('now')}
+                                className="mt-3 gradient-btn inline-flex items-center gap-1.5 px-3 py-1.5 text-white text-xs font-semibold rounded-lg"
+                            >
+                                <HugeiconsIcon icon={RefreshIcon} className="w-3.5 h-3.5" />
+                                {isGenerating ? 'Restart after render' : 'Restart now'}
+                            </button>
+                            <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+                                <span className="text-slate-400">Snooze:</span>
+                                {snoozeOptions.map((hours) => (
+                                    <button
+                                        key={hours}
+                                        onClick={() => window.api.setInstallPolicy('snooze', hours)}
+                                        className="px-2 py-0.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+                                    >
+                                        {hours}h
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => window.api.setInstallPolicy('on-quit')}
+                                    className="px-2 py-0.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+                                >
+                                    On next quit
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {status.state === 'downloaded' && status.install === 'waiting' && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">Restart pending</p>
+                            <p className="text-xs text-slate-500">
+                                AutoVid will restart into version {status.version} as soon as the current render finishes
+                            </p>
+                            <button
+                                onClick={() => window.api.setInstallPolicy('on-quit')}
+                                className="mt-3 px-3 py-1.5 border border-slate-200 text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                            >
+                                Install on quit instead
+                            </button>
+                        </>
+                    )}
+
+                    {status.state === 'error' && (
+                        <>
+                            <p className="font-semibold text-sm text-slate-900">{errorTitles[status.kind]}</p>
+                            <p className="text-xs text-slate-500 break-words line-clamp-3">{status.message}</p>
+                            {status.retryAt && (
+                                <p className="text-xs text-slate-400 mt-1">
+                                    Retrying at {new Date(status.retryAt).toLocaleTimeString()}
+                                </p>
+                            )}
+                        </>
+                    )}
+
+                    {skippableVersion && (
+                        <div className="flex items-center gap-3 mt-2 text-xs">
+                            <button
+                                onClick={openReleaseNotes}
+                                className="text-primary-600 hover:text-primary-700 underline-offset-2 hover:underline"
+                            >
+                                What&apos;s new
+                            </button>
+                            <button
+                                onClick={() => window.api.skipUpdateVersion(skippableVersion)}
+                                className="text-slate-400 hover:text-slate-600 underline-offset-2 hover:underline"
+                            >
+                                Skip this version
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    // Closing a ready update defers it to the next quit
+                    onClick={status.state === 'downloaded' ? () => window.api.setInstallPolicy('on-quit') : dismiss}
+                    className="p-1 text-slate-400 hover:text-slate-600 rounded-lg transition-colors"
+                >
+                    <HugeiconsIcon icon={Cancel01Icon} className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    )
+}
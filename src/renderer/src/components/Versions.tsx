@@ -4,10 +4,14 @@ function Versions(): React.JSX.Element {
   const [versions] = useState(window.electron.process.versions)
 
   return (
-    <ul className="versions">
-      <li className="electron-version">Electron v{versions.electron}</li>
-      <li className="chrome-version">Chromium v{versions.chrome}</li>
-      <li className="node-version">Node v{versions.node}</li>
+    <ul className="flex flex-wrap gap-2 text-xs">
+      <li className="px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">
+        Electron v{versions.electron}
+      </li>
+      <li className="px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">
+        Chromium v{versions.chrome}
+      </li>
+      <li className="px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">Node v{versions.node}</li>
     </ul>
   )
 }
@@ -0,0 +1,133 @@
+/**
+ * VoicePicker - Voice, speaking rate and download format for a project's narration, with a sample to listen to
+ */
+import { useEffect, useRef, useState } from 'react'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { StopIcon, VolumeHighIcon } from '@hugeicons/core-free-icons'
+import { ttsService } from '../services/TTSService'
+import type { VoiceFormat, VoiceSettings } from '../types'
+import { VOICE_FORMATS, VOICE_SPEED_RANGE } from '../types'
+
+interface VoicePickerProps {
+    value: VoiceSettings
+    onChange: (value: VoiceSettings) => void
+    disabled?: boolean
+    // Dialogues pick a voice per speaker instead, so only speed and download format apply
+    hideVoice?: boolean
+}
+
+interface VoicePreviewButtonProps {
+    settings: VoiceSettings
+}
+
+/**
+ * Plays a short sample of the given settings; clicking again stops it
+ */
+export function VoicePreviewButton({ settings }: VoicePreviewButtonProps): React.JSX.Element {
+    const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'playing'>('idle')
+    const [previewError, setPreviewError] = useState<string | null>(null)
+    const audioRef = useRef<HTMLAudioElement | null>(null)
+
+    const stopPreview = (): void => {
+        const audio = audioRef.current
+        if (audio) {
+            audio.pause()
+            URL.revokeObjectURL(audio.src)
+            audioRef.current = null
+        }
+        setPreviewState('idle')
+    }
+
+    // A sample still playing for settings that have since changed is misleading
+    useEffect(() => stopPreview, [settings.voice, settings.speed, settings.format])
+
+    const playPreview = async (): Promise<void> => {
+        stopPreview()
+        setPreviewError(null)
+        setPreviewState('loading')
+        try {
+            const sample = await ttsService.generatePreview(settings)
+            const audio = new Audio(URL.createObjectURL(sample))
+            audio.onended = stopPreview
+            audioRef.current = audio
+            setPreviewState('playing')
+            await audio.play()
+        } catch (error) {
+            stopPreview()
+            setPreviewError(`Preview failed: ${(error as Error).message}`)
+        }
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={() => (previewState === 'playing' ? stopPreview() : playPreview())}
+            disabled={previewState === 'loading'}
+            title={previewError ?? undefined}
+            className={`shrink-0 inline-flex items-center gap-1.5 px-3 py-2 border bg-white text-sm font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-60 ${previewError
+                    ? 'border-red-200 text-red-600'
+                    : 'border-slate-200 text-slate-700'
+                }`}
+        >
+            <HugeiconsIcon icon={previewState === 'playing' ? StopIcon : VolumeHighIcon} className="w-4 h-4" />
+            {previewState === 'loading' ? 'Loading...' : previewState === 'playing' ? 'Stop' : previewError ? 'Preview failed' : 'Preview this voice'}
+        </button>
+    )
+}
+
+export function VoicePicker({ value, onChange, disabled, hideVoice }: VoicePickerProps): React.JSX.Element {
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+                {!hideVoice && (
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-1.5">Voice</label>
+                        <select
+                            value={value.voice}
+                            onChange={(e) => onChange({ ...value, voice: e.target.value })}
+                            disabled={disabled}
+                            className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm disabled:opacity-60"
+                        >
+                            {ttsService.getVoices().map((voice) => (
+                                <option key={voice.id} value={voice.id}>{voice.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 mb-1.5">Download Format</label>
+                    <select
+                        value={value.format}
+                        onChange={(e) => onChange({ ...value, format: e.target.value as VoiceFormat })}
+                        disabled={disabled}
+                        title="Format the voice clips are downloaded in. The voiceover is always saved as WAV"
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm disabled:opacity-60"
+                    >
+                        {VOICE_FORMATS.map((format) => (
+                            <option key={format} value={format}>{format.toUpperCase()}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex items-end gap-3">
+                <div className="flex-1">
+                    <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+                        Speed: <span className="text-primary-600">{value.speed.toFixed(2)}×</span>
+                    </label>
+                    <input
+                        type="range"
+                        value={value.speed}
+                        onChange={(e) => onChange({ ...value, speed: Number(e.target.value) })}
+                        min={VOICE_SPEED_RANGE.min}
+                        max={VOICE_SPEED_RANGE.max}
+                        step={VOICE_SPEED_RANGE.step}
+                        disabled={disabled}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-500"
+                    />
+                </div>
+                {!hideVoice && <VoicePreviewButton settings={value} />}
+            </div>
+        </div>
+    )
+}
@@ -3,9 +3,11 @@ import './assets/main.css'
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { HeadlessRender } from './pages/HeadlessRender'
+
+// `autovid render` loads the page with #headless to run a single job
+const isHeadless = window.location.hash === '#headless'
 
 createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
+  <StrictMode>{isHeadless ? <HeadlessRender /> : <App />}</StrictMode>
 )
@@ -1,7 +1,7 @@
 /**
  * Dashboard - Project creation with scene count, duration, aspect ratio, and caption settings
  */
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { HugeiconsIcon } from '@hugeicons/react'
 import {
     Add01Icon,
@@ -9,31 +9,93 @@ import {
     Delete02Icon,
     AiVideoIcon,
     Clock01Icon,
-    Calendar03Icon
+    Calendar03Icon,
+    FileImportIcon,
+    FileExportIcon,
+    Cancel01Icon,
+    PlayListAddIcon
 } from '@hugeicons/core-free-icons'
 import { useProjectStore } from '../stores/ProjectStore'
-import type { Project, CaptionTemplate, CaptionPosition, CaptionSettings, AspectRatio } from '../types'
-import { DEFAULT_CAPTION_SETTINGS, CAPTION_FONTS } from '../types'
+import { useRenderQueueStore } from '../stores/RenderQueueStore'
+import { renderQueue } from '../services/RenderQueue'
+import { projectBundleService } from '../services/ProjectBundleService'
+import { InterruptedRunNotice } from '../components/InterruptedRunNotice'
+import { VoicePicker } from '../components/VoicePicker'
+import { SpeakerPicker } from '../components/SpeakerPicker'
+import type { Project, CaptionTemplate, CaptionPosition, CaptionSettings, AspectRatio, VoiceSettings, Speaker, SpeakerLabelStyle } from '../types'
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_VOICE_SETTINGS, DEFAULT_SPEAKERS, CAPTION_FONTS, SPEAKER_LABEL_STYLES } from '../types'
 
 interface DashboardProps {
     onOpenProject: (project: Project) => void
 }
 
 export function Dashboard({ onOpenProject }: DashboardProps) {
-    const { projects, createProject, deleteProject } = useProjectStore()
+    const { projects, createProject, deleteProject, addProject } = useProjectStore()
+    const jobs = useRenderQueueStore((state) => state.jobs)
+    const [bundleError, setBundleError] = useState<string | null>(null)
+    const [isImporting, setIsImporting] = useState(false)
+    const interruptedProjects = projects.filter((p) => p.status === 'interrupted' || p.status === 'cancelled')
     const [showNewProject, setShowNewProject] = useState(false)
     const [newProjectTopic, setNewProjectTopic] = useState('')
     const [sceneCount, setSceneCount] = useState(10)
     const [duration, setDuration] = useState(5)
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('9:16')
     const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS)
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS)
+    const [isDialogue, setIsDialogue] = useState(false)
+    const [speakers, setSpeakers] = useState<Speaker[]>(DEFAULT_SPEAKERS)
+
+    const importBundle = useCallback(async (filePath?: string): Promise<void> => {
+        setIsImporting(true)
+        setBundleError(null)
+        try {
+            const project = await projectBundleService.importProject(filePath)
+            if (project) addProject(project)
+        } catch (error) {
+            setBundleError(`Import failed: ${(error as Error).message}`)
+        } finally {
+            setIsImporting(false)
+        }
+    }, [addProject])
+
+    // Bundles opened from the file manager are queued by the main process
+    useEffect(() => {
+        const importPending = async (): Promise<void> => {
+            for (const path of await window.api.takePendingBundles()) {
+                await importBundle(path)
+            }
+        }
+        importPending()
+        return window.api.onProjectBundlesPending(importPending)
+    }, [importBundle])
+
+    const exportBundle = async (project: Project): Promise<void> => {
+        setBundleError(null)
+        try {
+            await projectBundleService.exportProject(project)
+        } catch (error) {
+            setBundleError(`Export failed: ${(error as Error).message}`)
+        }
+    }
+
+    // Speakers are matched by name in the script, so each needs one
+    const speakersReady = !isDialogue || speakers.every((speaker) => speaker.name.trim())
 
     const handleCreateProject = () => {
-        if (!newProjectTopic.trim()) return
+        if (!newProjectTopic.trim() || !speakersReady) return
 
         // Auto-generate name from topic
         const name = newProjectTopic.slice(0, 50) + (newProjectTopic.length > 50 ? '...' : '')
-        const project = createProject(name, newProjectTopic, sceneCount, duration, aspectRatio, captionSettings)
+        const project = createProject(
+            name,
+            newProjectTopic,
+            sceneCount,
+            duration,
+            aspectRatio,
+            captionSettings,
+            voiceSettings,
+            isDialogue ? speakers.map((speaker) => ({ ...speaker, name: speaker.name.trim() })) : undefined
+        )
 
         setShowNewProject(false)
         setNewProjectTopic('')
@@ -41,6 +103,9 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
         setDuration(5)
         setAspectRatio('9:16')
         setCaptionSettings(DEFAULT_CAPTION_SETTINGS)
+        setVoiceSettings(DEFAULT_VOICE_SETTINGS)
+        setIsDialogue(false)
+        setSpeakers(DEFAULT_SPEAKERS)
         onOpenProject(project)
     }
 
@@ -48,6 +113,8 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
         switch (status) {
             case 'completed': return 'status-completed'
             case 'error': return 'status-error'
+            case 'interrupted':
+            case 'cancelled': return 'status-interrupted'
             case 'draft': return 'status-draft'
             default: return 'status-generating'
         }
@@ -75,19 +142,47 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
                         <h1 className="text-2xl lg:text-3xl font-bold text-slate-900 tracking-tight">Dashboard</h1>
                         <p className="text-slate-500 mt-1">Create and manage your AI-generated videos</p>
                     </div>
-                    <button
-                        onClick={() => setShowNewProject(true)}
-                        className="gradient-btn inline-flex items-center gap-2 px-5 py-2.5 text-white text-sm font-semibold rounded-xl"
-                    >
-                        <HugeiconsIcon icon={Add01Icon} className="w-5 h-5" />
-                        <span className="hidden sm:inline">New Project</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => importBundle()}
+                            disabled={isImporting}
+                            className="inline-flex items-center gap-2 px-4 py-2.5 border border-slate-200 bg-white text-slate-700 text-sm font-semibold rounded-xl hover:bg-slate-50 disabled:opacity-60"
+                        >
+                            <HugeiconsIcon icon={FileImportIcon} className="w-5 h-5" />
+                            <span className="hidden sm:inline">{isImporting ? 'Importing...' : 'Import'}</span>
+                        </button>
+                        <button
+                            onClick={() => setShowNewProject(true)}
+                            className="gradient-btn inline-flex items-center gap-2 px-5 py-2.5 text-white text-sm font-semibold rounded-xl"
+                        >
+                            <HugeiconsIcon icon={Add01Icon} className="w-5 h-5" />
+                            <span className="hidden sm:inline">New Project</span>
+                        </button>
+                    </div>
                 </div>
             </header>
 
             {/* Content */}
             <div className="flex-1 overflow-auto px-6 lg:px-8 py-6">
                 <div className="max-w-7xl mx-auto">
+                    {bundleError && (
+                        <div className="flex items-start justify-between gap-3 p-4 mb-5 bg-red-50 border border-red-100 text-sm text-red-700 rounded-xl">
+                            <span className="break-words">{bundleError}</span>
+                            <button onClick={() => setBundleError(null)} className="text-red-400 hover:text-red-600">
+                                <HugeiconsIcon icon={Cancel01Icon} className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Renders cut short by the app closing or cancelled part way */}
+                    {interruptedProjects.length > 0 && (
+                        <div className="space-y-2 mb-5">
+                            {interruptedProjects.map((project) => (
+                                <InterruptedRunNotice key={project.id} project={project} onRestart={onOpenProject} showName />
+                            ))}
+                        </div>
+                    )}
+
                     {/* New Project Modal */}
                     {showNewProject && (
                         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in">
@@ -213,6 +308,50 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
                                             </select>
                                         </div>
                                     </div>
+
+                                    {/* Narrator or Hosts */}
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 mb-2">Format</label>
+                                        <div className="flex gap-2">
+                                            {[
+                                                { dialogue: false, name: 'Narrator', desc: 'One voice reads the script' },
+                                                { dialogue: true, name: 'Two Hosts', desc: 'Interview or explainer dialogue' }
+                                            ].map((format) => (
+                                                <button
+                                                    key={format.name}
+                                                    onClick={() => setIsDialogue(format.dialogue)}
+                                                    className={`flex-1 py-3 px-3 rounded-xl border-2 text-center transition-all ${isDialogue === format.dialogue
+                                                            ? 'border-primary-500 bg-primary-50'
+                                                            : 'border-slate-200 hover:border-slate-300'
+                                                        }`}
+                                                >
+                                                    <p className="font-bold text-slate-900">{format.name}</p>
+                                                    <p className="text-xs text-slate-500">{format.desc}</p>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {isDialogue && (
+                                        <div className="space-y-3">
+                                            <SpeakerPicker value={speakers} onChange={setSpeakers} voiceSettings={voiceSettings} />
+                                            <div>
+                                                <label className="block text-sm font-semibold text-slate-700 mb-1.5">Show Speakers in Captions</label>
+                                                <select
+                                                    value={captionSettings.speakerLabels}
+                                                    onChange={(e) => setCaptionSettings({ ...captionSettings, speakerLabels: e.target.value as SpeakerLabelStyle })}
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm"
+                                                >
+                                                    {SPEAKER_LABEL_STYLES.map((style) => (
+                                                        <option key={style.id} value={style.id}>{style.name}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {/* Voiceover */}
+                                    <VoicePicker value={voiceSettings} onChange={setVoiceSettings} hideVoice={isDialogue} />
                                 </div>
 
                                 <div className="flex gap-3 mt-6">
@@ -224,7 +363,7 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
                                     </button>
                                     <button
                                         onClick={handleCreateProject}
-                                        disabled={!newProjectTopic.trim()}
+                                        disabled={!newProjectTopic.trim() || !speakersReady}
                                         className="flex-1 gradient-btn px-4 py-3 text-white font-semibold rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
                                         Start Creating
@@ -263,7 +402,8 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
                                     <div className={`status-badge ${getStatusStyle(project.status)} absolute top-4 right-4`}>
                                         <span className={`w-1.5 h-1.5 rounded-full ${project.status === 'completed' ? 'bg-emerald-500' :
                                                 project.status === 'error' ? 'bg-red-500' :
-                                                    project.status === 'draft' ? 'bg-slate-400' : 'bg-primary-500 animate-pulse'
+                                                    project.status === 'interrupted' || project.status === 'cancelled' ? 'bg-amber-500' :
+                                                        project.status === 'draft' ? 'bg-slate-400' : 'bg-primary-500 animate-pulse'
                                             }`}></span>
                                         {project.status.replace('_', ' ')}
                                     </div>
@@ -293,14 +433,42 @@ export function Dashboard({ onOpenProject }: DashboardProps) {
 
                                     {/* Delete button */}
                                     <button
-                                        onClick={(e) => {
+                                        onClick={async (e) => {
                                             e.stopPropagation()
+                                            // A cancelled run may still be saving; let it finish before the assets go
+                                            await renderQueue.remove(project.id)
                                             deleteProject(project.id)
                                         }}
                                         className="absolute top-4 left-4 p-2 bg-red-50 text-red-500 rounded-lg opacity-0 group-hover:opacity-100 transition-all hover:bg-red-100"
                                     >
                                         <HugeiconsIcon icon={Delete02Icon} className="w-4 h-4" />
                                     </button>
+
+                                    {/* Export button */}
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation()
+                                            exportBundle(project)
+                                        }}
+                                        title="Export as .autovid"
+                                        className="absolute top-4 left-14 p-2 bg-slate-50 text-slate-500 rounded-lg opacity-0 group-hover:opacity-100 transition-all hover:bg-slate-100"
+                                    >
+                                        <HugeiconsIcon icon={FileExportIcon} className="w-4 h-4" />
+                                    </button>
+
+                                    {/* Queue button; generates in the background without opening the editor */}
+                                    {project.status !== 'completed' && !jobs.some((job) => job.projectId === project.id) && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation()
+                                                renderQueue.enqueue(project.id)
+                                            }}
+                                            title="Add to render queue"
+                                            className="absolute top-4 left-24 p-2 bg-primary-50 text-primary-600 rounded-lg opacity-0 group-hover:opacity-100 transition-all hover:bg-primary-100"
+                                        >
+                                            <HugeiconsIcon icon={PlayListAddIcon} className="w-4 h-4" />
+                                        </button>
+                                    )}
                                 </div>
                             ))}
                         </div>
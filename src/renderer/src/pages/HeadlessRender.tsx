@@ -0,0 +1,65 @@
+/**
+ * HeadlessRender - Root of the hidden window behind `autovid render`
+ * Creates the job's project and lets the editor's pipeline run it, reporting progress to the main process
+ */
+import { useEffect, useRef, useState } from 'react'
+import { VideoEditor } from './VideoEditor'
+import { useProjectStore } from '../stores/ProjectStore'
+import { pipelineRunner } from '../services/PipelineRunner'
+import { DEFAULT_CAPTION_SETTINGS } from '../types'
+
+export function HeadlessRender(): React.JSX.Element | null {
+    const createProject = useProjectStore((state) => state.createProject)
+    const [isReady, setIsReady] = useState(false)
+    const hasStarted = useRef(false)
+
+    useEffect(() => {
+        if (hasStarted.current) return
+        hasStarted.current = true
+
+        window.api
+            .getRenderJob()
+            .then((job) => {
+                if (!job) throw new Error('No render job was given')
+
+                const project = createProject(
+                    job.name,
+                    job.topic,
+                    job.sceneCount,
+                    job.duration,
+                    job.aspectRatio,
+                    { ...DEFAULT_CAPTION_SETTINGS, template: job.captionTemplate },
+                    { voice: job.voice, speed: job.speed, format: job.voiceFormat }
+                )
+
+                // The run ends on 'complete' or 'error'; their progress steps are reported through those
+                pipelineRunner.subscribe((event) => {
+                    if (event.projectId !== project.id) return
+
+                    if (event.type === 'progress') {
+                        const { progress } = event
+                        if (progress.step !== 'complete' && progress.step !== 'error') {
+                            window.api.reportRenderEvent({ type: 'progress', ...progress })
+                        }
+                    } else if (event.type === 'error') {
+                        window.api.reportRenderEvent({ type: 'error', message: String(event.error), projectId: project.id })
+                    } else if (event.type === 'complete') {
+                        const videoUrl = useProjectStore.getState().projects.find((p) => p.id === project.id)?.videoUrl
+                        if (videoUrl) {
+                            window.api.reportRenderEvent({ type: 'complete', projectId: project.id, videoUrl })
+                        } else {
+                            window.api.reportRenderEvent({ type: 'error', message: 'The video was not saved', projectId: project.id })
+                        }
+                    }
+                })
+
+                setIsReady(true)
+            })
+            .catch((error) => {
+                window.api.reportRenderEvent({ type: 'error', message: (error as Error).message })
+            })
+    }, [createProject])
+
+    // Mounting the editor on a draft project starts the pipeline
+    return isReady ? <VideoEditor /> : null
+}
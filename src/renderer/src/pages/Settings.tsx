@@ -0,0 +1,522 @@
+/**
+ * Settings - API connections, generation, automation API, update channel and version information
+ */
+import { useEffect, useState } from 'react'
+import { HugeiconsIcon } from '@hugeicons/react'
+import {
+    Configuration01Icon,
+    InformationCircleIcon,
+    SystemUpdate01Icon,
+    RefreshIcon,
+    ApiIcon,
+    Image01Icon
+} from '@hugeicons/core-free-icons'
+import Versions from '../components/Versions'
+import { ApiConnectionRow } from '../components/ApiConnectionRow'
+import { apiKeyService } from '../services/ApiKeyService'
+import { useUpdateStore } from '../stores/UpdateStore'
+import type {
+    ApiKeyStatus,
+    AutomationStatus,
+    GenerationSettings,
+    UpdateChannel,
+    UpdateCheckRecord,
+    UpdateSettings
+} from '../types'
+
+const updateChannels: { id: UpdateChannel; name: string; desc: string }[] = [
+    { id: 'stable', name: 'Stable', desc: 'Tested releases' },
+    { id: 'beta', name: 'Beta', desc: 'Early features' },
+    { id: 'alpha', name: 'Alpha', desc: 'Latest builds' }
+]
+
+const imageConcurrencyOptions = [1, 2, 3, 4, 6, 8]
+
+const checkIntervals: { hours: number; label: string }[] = [
+    { hours: 0, label: 'Never' },
+    { hours: 1, label: 'Every hour' },
+    { hours: 4, label: 'Every 4 hours' },
+    { hours: 12, label: 'Every 12 hours' },
+    { hours: 24, label: 'Once a day' }
+]
+
+function describeLastCheck(record: UpdateCheckRecord): string {
+    switch (record.result) {
+        case 'available': return `Version ${record.version} available`
+        case 'not-available': return 'Up to date'
+        case 'skipped': return `Version ${record.version} ignored`
+        case 'error': return `Failed: ${record.message}`
+    }
+}
+
+export function Settings(): React.JSX.Element {
+    const [appVersion, setAppVersion] = useState('')
+    const [updateSettings, setUpdateSettings] = useState<UpdateSettings | null>(null)
+    const [isSavingChannel, setIsSavingChannel] = useState(false)
+    const [updateError, setUpdateError] = useState<string | null>(null)
+    const [updateLog, setUpdateLog] = useState<string | null>(null)
+    const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus | null>(null)
+    const [automation, setAutomation] = useState<AutomationStatus | null>(null)
+    const [automationPort, setAutomationPort] = useState('')
+    const [automationError, setAutomationError] = useState<string | null>(null)
+    const [showToken, setShowToken] = useState(false)
+    const [generationSettings, setGenerationSettings] = useState<GenerationSettings | null>(null)
+    const [generationError, setGenerationError] = useState<string | null>(null)
+    const updateState = useUpdateStore((state) => state.status.state)
+    const openReleaseNotes = useUpdateStore((state) => state.openReleaseNotes)
+
+    useEffect(() => {
+        window.api.getAppVersion().then(setAppVersion)
+        apiKeyService.getStatus().then(setApiKeyStatus)
+        window.api.getGenerationSettings().then(setGenerationSettings)
+        window.api.getAutomationStatus().then((status) => {
+            setAutomation(status)
+            setAutomationPort(String(status.port))
+        })
+    }, [])
+
+    // Reload after each updater transition so the last check stays current
+    useEffect(() => {
+        window.api.getUpdateSettings().then(setUpdateSettings)
+    }, [updateState])
+
+    const channel = updateSettings?.channel ?? 'stable'
+
+    const handleChannelChange = async (next: UpdateChannel): Promise<void> => {
+        if (next === channel || isSavingChannel) return
+        setIsSavingChannel(true)
+        try {
+            setUpdateSettings(await window.api.setUpdateChannel(next))
+        } catch (error) {
+            console.error('Failed to change update channel:', error)
+        } finally {
+            setIsSavingChannel(false)
+        }
+    }
+
+    const updateAutomation = async (change: () => Promise<AutomationStatus>): Promise<void> => {
+        setAutomationError(null)
+        try {
+            const status = await change()
+            setAutomation(status)
+            setAutomationPort(String(status.port))
+        } catch (error) {
+            setAutomationError((error as Error).message)
+        }
+    }
+
+    const changeImageConcurrency = async (count: number): Promise<void> => {
+        setGenerationError(null)
+        try {
+            setGenerationSettings(await window.api.setImageConcurrency(count))
+        } catch (error) {
+            setGenerationError((error as Error).message)
+        }
+    }
+
+    const runUpdateAction = async (action: () => Promise<void>): Promise<void> => {
+        setUpdateError(null)
+        try {
+            await action()
+        } catch (error) {
+            setUpdateError((error as Error).message)
+        }
+    }
+
+    const changeUpdateInterval = (hours: number): Promise<void> =>
+        runUpdateAction(async () => setUpdateSettings(await window.api.setUpdateInterval(hours)))
+
+    const toggleUpdateLog = (): Promise<void> =>
+        runUpdateAction(async () => setUpdateLog(updateLog === null ? await window.api.getUpdateLog() : null))
+
+    const exportUpdateLog = (): Promise<void> =>
+        runUpdateAction(async () => {
+            await window.api.exportUpdateLog()
+        })
+
+    // Prerelease versions carry a tag, e.g. 1.1.0-beta.2
+    const isPrereleaseBuild = appVersion.includes('-')
+    const currentLine = appVersion.split('.').slice(0, 2).join('.')
+
+    return (
+        <div className="flex-1 flex flex-col h-full overflow-hidden bg-gradient-to-b from-slate-50/50 to-white/50">
+            {/* Header */}
+            <header className="shrink-0 px-6 lg:px-8 py-6 border-b border-slate-100 bg-white/60 backdrop-blur-sm">
+                <div className="max-w-4xl mx-auto">
+                    <h1 className="text-2xl font-bold text-slate-900">Settings</h1>
+                    <p className="text-slate-500 mt-1">Configure your AutoVid preferences</p>
+                </div>
+            </header>
+
+            <div className="flex-1 overflow-auto px-6 lg:px-8 py-6">
+                <div className="max-w-4xl mx-auto space-y-6">
+                    {/* API Configuration */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-3 mb-5">
+                            <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
+                                <HugeiconsIcon icon={Configuration01Icon} className="w-5 h-5 text-primary-600" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900">API Configuration</h2>
+                                <p className="text-sm text-slate-500">Keys are encrypted and stored on this device</p>
+                            </div>
+                        </div>
+
+                        {apiKeyStatus && !apiKeyStatus.encryptionAvailable && (
+                            <p className="text-sm text-amber-700 bg-amber-50 rounded-xl p-3 mb-3">
+                                Secure storage is not available on this system, so API keys cannot be saved.
+                            </p>
+                        )}
+
+                        <div className="space-y-3">
+                            <ApiConnectionRow
+                                name="Google Gemini"
+                                description="Script generation"
+                                target="gemini"
+                                configured={!!apiKeyStatus?.gemini.configured}
+                                hint={apiKeyStatus?.gemini.hint}
+                                fields={[{ key: 'apiKey', label: 'API key', secret: true }]}
+                                onSave={async (values) => {
+                                    setApiKeyStatus(await apiKeyService.save('gemini', { apiKey: values.apiKey }))
+                                }}
+                                onClear={async () => setApiKeyStatus(await apiKeyService.clear('gemini'))}
+                            />
+
+                            <ApiConnectionRow
+                                name="Cloudflare AI"
+                                description="Image generation and transcription"
+                                target="cloudflare"
+                                configured={!!apiKeyStatus?.cloudflare.configured}
+                                hint={apiKeyStatus?.cloudflare.hint}
+                                fields={[
+                                    { key: 'accountId', label: 'Account ID', secret: false, value: apiKeyStatus?.cloudflare.accountId },
+                                    { key: 'apiToken', label: 'API token', secret: true }
+                                ]}
+                                onSave={async (values) => {
+                                    setApiKeyStatus(
+                                        await apiKeyService.save('cloudflare', {
+                                            accountId: values.accountId,
+                                            apiToken: values.apiToken
+                                        })
+                                    )
+                                }}
+                                onClear={async () => setApiKeyStatus(await apiKeyService.clear('cloudflare'))}
+                            />
+
+                            <ApiConnectionRow name="TTSFM" description="Text-to-speech, no key needed" target="tts" configured />
+                        </div>
+                    </div>
+
+                    {/* Generation */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-3 mb-5">
+                            <div className="w-10 h-10 bg-amber-100 rounded-xl flex items-center justify-center">
+                                <HugeiconsIcon icon={Image01Icon} className="w-5 h-5 text-amber-600" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900">Generation</h2>
+                                <p className="text-sm text-slate-500">How hard each render works the AI providers</p>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-xl">
+                            <div>
+                                <p className="font-semibold text-slate-900">Parallel image requests</p>
+                                <p className="text-xs text-slate-500">
+                                    Scene images generated at once. Rate-limited requests wait and retry automatically.
+                                </p>
+                            </div>
+                            <select
+                                value={generationSettings?.imageConcurrency ?? 3}
+                                disabled={!generationSettings}
+                                onChange={(e) => changeImageConcurrency(Number(e.target.value))}
+                                className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm shrink-0"
+                            >
+                                {imageConcurrencyOptions.map((count) => (
+                                    <option key={count} value={count}>{count === 1 ? 'One at a time' : `${count} at once`}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {generationError && <p className="text-xs text-red-600 mt-2">{generationError}</p>}
+                    </div>
+
+                    {/* Automation API */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-3 mb-5">
+                            <div className="w-10 h-10 bg-emerald-100 rounded-xl flex items-center justify-center">
+                                <HugeiconsIcon icon={ApiIcon} className="w-5 h-5 text-emerald-600" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900">Automation API</h2>
+                                <p className="text-sm text-slate-500">Let tools on this computer create and download videos</p>
+                            </div>
+                        </div>
+
+                        <label className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-xl cursor-pointer">
+                            <div>
+                                <p className="font-semibold text-slate-900">Enable local API</p>
+                                <p className="text-xs text-slate-500">
+                                    {automation?.enabled
+                                        ? automation.listening
+                                            ? `Listening on ${automation.url}`
+                                            : `Not listening${automation.error ? `: ${automation.error}` : ''}`
+                                        : 'Only reachable from this computer, with the token below'}
+                                </p>
+                            </div>
+                            <input
+                                type="checkbox"
+                                checked={!!automation?.enabled}
+                                disabled={!automation}
+                                onChange={(e) => updateAutomation(() => window.api.setAutomationEnabled(e.target.checked))}
+                                className="w-5 h-5 accent-primary-500"
+                            />
+                        </label>
+
+                        {automation?.enabled && (
+                            <div className="p-4 bg-slate-50 rounded-xl mt-3 space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <label className="w-16 text-xs font-semibold text-slate-600">Port</label>
+                                    <input
+                                        type="number"
+                                        value={automationPort}
+                                        onChange={(e) => setAutomationPort(e.target.value)}
+                                        min={1024}
+                                        max={65535}
+                                        className="w-28 px-3 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+                                    />
+                                    <button
+                                        onClick={() => updateAutomation(() => window.api.setAutomationPort(Number(automationPort)))}
+                                        disabled={automationPort === String(automation.port)}
+                                        className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                                    >
+                                        Apply
+                                    </button>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <label className="w-16 text-xs font-semibold text-slate-600">Token</label>
+                                    <code className="flex-1 min-w-0 truncate px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-700">
+                                        {showToken ? automation.token : '•'.repeat(24)}
+                                    </code>
+                                    <button
+                                        onClick={() => setShowToken(!showToken)}
+                                        className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                    >
+                                        {showToken ? 'Hide' : 'Show'}
+                                    </button>
+                                    <button
+                                        onClick={() => navigator.clipboard.writeText(automation.token || '')}
+                                        className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                    >
+                                        Copy
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            if (confirm('Tools using the current token will stop working. Continue?')) {
+                                                updateAutomation(() => window.api.regenerateAutomationToken())
+                                            }
+                                        }}
+                                        className="px-3 py-1.5 text-red-600 text-xs font-semibold rounded-lg hover:bg-red-50"
+                                    >
+                                        Regenerate
+                                    </button>
+                                </div>
+                                <p className="text-xs text-slate-500">
+                                    Send it as <code>Authorization: Bearer &lt;token&gt;</code>. See the README for the endpoints.
+                                </p>
+                            </div>
+                        )}
+
+                        {automationError && <p className="text-xs text-red-600 mt-2">{automationError}</p>}
+                    </div>
+
+                    {/* Updates */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-3 mb-5">
+                            <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+                                <HugeiconsIcon icon={SystemUpdate01Icon} className="w-5 h-5 text-indigo-600" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900">Updates</h2>
+                                <p className="text-sm text-slate-500">Choose which releases this machine receives</p>
+                            </div>
+                        </div>
+
+                        {/* Check Now */}
+                        <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-xl mb-4">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-slate-900">
+                                    {updateState === 'checking' ? 'Checking for updates...' : 'Last checked'}
+                                </p>
+                                <p className="text-xs text-slate-500 truncate">
+                                    {updateSettings?.lastCheck
+                                        ? `${new Date(updateSettings.lastCheck.checkedAt).toLocaleString()} • ${describeLastCheck(updateSettings.lastCheck)}`
+                                        : 'Never'}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                <select
+                                    value={updateSettings?.checkIntervalHours ?? 4}
+                                    onChange={(e) => changeUpdateInterval(Number(e.target.value))}
+                                    className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm"
+                                >
+                                    {checkIntervals.map((interval) => (
+                                        <option key={interval.hours} value={interval.hours}>{interval.label}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => window.api.checkForUpdates().catch((error) => console.error('Update check failed:', error))}
+                                    disabled={updateState === 'checking'}
+                                    className="gradient-btn inline-flex items-center gap-1.5 px-3 py-2 text-white text-sm font-semibold rounded-lg disabled:opacity-50"
+                                >
+                                    <HugeiconsIcon
+                                        icon={RefreshIcon}
+                                        className={`w-4 h-4 ${updateState === 'checking' ? 'animate-spin' : ''}`}
+                                    />
+                                    Check now
+                                </button>
+                            </div>
+                        </div>
+
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">Release Channel</label>
+                        <div className="flex gap-2">
+                            {updateChannels.map((option) => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => handleChannelChange(option.id)}
+                                    disabled={isSavingChannel}
+                                    className={`flex-1 py-3 px-3 rounded-xl border-2 text-center transition-all disabled:opacity-60 ${channel === option.id
+                                            ? 'border-primary-500 bg-primary-50'
+                                            : 'border-slate-200 hover:border-slate-300'
+                                        }`}
+                                >
+                                    <p className="font-bold text-slate-900">{option.name}</p>
+                                    <p className="text-xs text-slate-500">{option.desc}</p>
+                                </button>
+                            ))}
+                        </div>
+
+                        {channel === 'stable' && isPrereleaseBuild && (
+                            <p className="text-sm text-amber-700 bg-amber-50 rounded-xl p-3 mt-3">
+                                You are running prerelease build {appVersion}. The latest stable release will be
+                                offered as a downgrade and only downloaded once you confirm it.
+                            </p>
+                        )}
+
+                        {/* Version Pin */}
+                        <label className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-xl mt-4 cursor-pointer">
+                            <div>
+                                <p className="font-semibold text-slate-900">Stay on {currentLine || 'this version'}.x</p>
+                                <p className="text-xs text-slate-500">Ignore releases outside the installed major.minor line</p>
+                            </div>
+                            <input
+                                type="checkbox"
+                                checked={!!updateSettings?.pinnedVersion}
+                                disabled={!currentLine}
+                                onChange={async (e) =>
+                                    setUpdateSettings(await window.api.setUpdatePin(e.target.checked ? currentLine : null))
+                                }
+                                className="w-5 h-5 accent-primary-500"
+                            />
+                        </label>
+                        {updateSettings?.pinnedVersion && updateSettings.pinnedVersion !== currentLine && (
+                            <p className="text-xs text-slate-500 mt-2">Currently pinned to {updateSettings.pinnedVersion}.x</p>
+                        )}
+
+                        {/* Skipped Versions */}
+                        <div className="p-4 bg-slate-50 rounded-xl mt-3">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <p className="font-semibold text-slate-900">Skipped versions</p>
+                                    <p className="text-xs text-slate-500">These releases will not be downloaded</p>
+                                </div>
+                                <button
+                                    onClick={async () => setUpdateSettings(await window.api.clearSkippedVersions())}
+                                    disabled={!updateSettings?.skippedVersions.length}
+                                    className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                            {updateSettings?.skippedVersions.length ? (
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {updateSettings.skippedVersions.map((version) => (
+                                        <span
+                                            key={version}
+                                            className="px-2.5 py-1 bg-white border border-slate-200 text-slate-600 text-xs font-medium rounded-full"
+                                        >
+                                            v{version}
+                                        </span>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-400 mt-3">No versions skipped</p>
+                            )}
+                        </div>
+
+                        {/* Diagnostics */}
+                        <div className="p-4 bg-slate-50 rounded-xl mt-3">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <p className="font-semibold text-slate-900">Update log</p>
+                                    <p className="text-xs text-slate-500">Every check, download and error from the updater</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={toggleUpdateLog}
+                                        className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                    >
+                                        {updateLog === null ? 'View' : 'Hide'}
+                                    </button>
+                                    <button
+                                        onClick={exportUpdateLog}
+                                        className="px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                    >
+                                        Export
+                                    </button>
+                                </div>
+                            </div>
+                            {updateLog !== null && (
+                                <pre className="mt-3 max-h-64 overflow-auto p-3 bg-white border border-slate-200 rounded-lg text-xs text-slate-600 whitespace-pre-wrap">
+                                    {updateLog || 'The log is empty'}
+                                </pre>
+                            )}
+                        </div>
+
+                        {updateError && <p className="text-xs text-red-600 mt-2">{updateError}</p>}
+                    </div>
+
+                    {/* About */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-3 mb-5">
+                            <div className="w-10 h-10 bg-slate-100 rounded-xl flex items-center justify-center">
+                                <HugeiconsIcon icon={InformationCircleIcon} className="w-5 h-5 text-slate-600" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900">About AutoVid</h2>
+                                <p className="text-sm text-slate-500">Version information</p>
+                            </div>
+                        </div>
+
+                        <div className="text-slate-600 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <p><span className="font-semibold">Version:</span> {appVersion}</p>
+                                <button
+                                    onClick={openReleaseNotes}
+                                    className="px-3 py-1.5 border border-slate-200 text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                >
+                                    Release notes
+                                </button>
+                            </div>
+                            <Versions />
+                            <p className="text-sm text-slate-500 mt-4">
+                                AutoVid is an AI-powered video creation platform that generates long-form videos from a single topic.
+                                It uses Gemini for scripts, Cloudflare AI for images, TTSFM for voiceover, and FFmpeg for video composition.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -2,7 +2,7 @@
  * VideoEditor - Fully automated video generation
  * One-click: Script → Images → Audio → Captions → Video
  */
-import { useEffect, useCallback, useRef, useState } from 'react'
+import { useEffect, useCallback, useState } from 'react'
 import { HugeiconsIcon } from '@hugeicons/react'
 import {
     File01Icon,
@@ -13,16 +13,25 @@ import {
     FileDownloadIcon,
     CheckmarkCircle02Icon,
     Loading01Icon,
-    ArrowRight01Icon
+    ArrowRight01Icon,
+    PauseIcon,
+    PlayIcon,
+    Cancel01Icon,
+    Clock01Icon,
+    Alert02Icon,
+    RefreshIcon
 } from '@hugeicons/core-free-icons'
 import { useProjectStore } from '../stores/ProjectStore'
-import { geminiService } from '../services/GeminiService'
-import { cloudflareService } from '../services/CloudflareService'
-import { ttsService } from '../services/TTSService'
 import { videoComposer } from '../services/VideoComposer'
+import { projectAssetService } from '../services/ProjectAssetService'
+import { renderQueue } from '../services/RenderQueue'
+import { useRenderQueueStore, getQueuePosition } from '../stores/RenderQueueStore'
 import { VideoPlayer } from '../components/VideoPlayer'
-import type { Caption, WordTiming, CaptionSettings, CaptionTemplate, CaptionPosition } from '../types'
-import { DEFAULT_CAPTION_SETTINGS, CAPTION_FONTS } from '../types'
+import { InterruptedRunNotice } from '../components/InterruptedRunNotice'
+import { VoicePicker } from '../components/VoicePicker'
+import { SpeakerPicker } from '../components/SpeakerPicker'
+import type { CaptionSettings, CaptionTemplate, CaptionPosition, VoiceSettings, Speaker, SpeakerLabelStyle } from '../types'
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_VOICE_SETTINGS, CAPTION_FONTS, SPEAKER_LABEL_STYLES } from '../types'
 
 type Step = 'script' | 'images' | 'audio' | 'captions' | 'video' | 'complete'
 
@@ -36,22 +45,26 @@ export function VideoEditor() {
     const {
         currentProject,
         updateProject,
-        setScenes,
-        updateScene,
-        setProgress,
         setIsGenerating,
-        isGenerating,
-        progress,
-        setProjectStatus,
-        setAudio,
-        setCaptions,
-        setVideo
+        setVideo,
+        revoiceProject
     } = useProjectStore()
+    const jobs = useRenderQueueStore((state) => state.jobs)
+    const job = jobs.find((j) => j.projectId === currentProject?.id)
+    const queuePosition = currentProject ? getQueuePosition(jobs, currentProject.id) : null
+    const isRunning = job?.state === 'running'
+    const isPaused = !!job?.paused
+    const progress = job?.progress
+    const lastError = useRenderQueueStore((state) => (currentProject ? state.errors[currentProject.id] : undefined))
 
-    const isRunning = useRef(false)
     const [captionSettings, setCaptionSettingsState] = useState<CaptionSettings>(
         currentProject?.captionSettings || DEFAULT_CAPTION_SETTINGS
     )
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(
+        currentProject?.voiceSettings || DEFAULT_VOICE_SETTINGS
+    )
+    const [speakers, setSpeakers] = useState<Speaker[]>(currentProject?.speakers ?? [])
+    const isDialogue = speakers.length > 1
     const [isReRendering, setIsReRendering] = useState(false)
 
     const steps: StepInfo[] = [
@@ -66,9 +79,9 @@ export function VideoEditor() {
     const getCurrentStep = (): Step => {
         if (!currentProject) return 'script'
         if (currentProject.status === 'completed') return 'complete'
-        if (currentProject.videoBlob) return 'complete'
+        if (currentProject.videoUrl) return 'complete'
         if (currentProject.captions?.length) return 'video'
-        if (currentProject.audioBlob) return 'captions'
+        if (currentProject.audioUrl) return 'captions'
         if (currentProject.scenes.some(s => s.imageUrl)) return 'audio'
         if (currentProject.scenes.length > 0) return 'images'
         return 'script'
@@ -77,188 +90,19 @@ export function VideoEditor() {
     const currentStep = getCurrentStep()
     const stepIndex = steps.findIndex(s => s.id === currentStep)
 
-    // Auto-run pipeline
-    const runAutomatedPipeline = useCallback(async () => {
-        if (!currentProject || isRunning.current || currentProject.status === 'completed') return
-
-        isRunning.current = true
-        setIsGenerating(true)
-
-        try {
-            // Step 1: Generate Script
-            if (!currentProject.script || currentProject.scenes.length === 0) {
-                setProjectStatus(currentProject.id, 'generating_script')
-                setProgress({ step: 'script', current: 0, total: 1, message: 'Generating script...' })
-
-                const script = await geminiService.generateScript(
-                    currentProject.topic,
-                    currentProject.targetDuration,
-                    undefined,
-                    currentProject.sceneCount
-                )
-
-                updateProject(currentProject.id, { script })
-                const scenes = geminiService.parseScriptToScenes(script, currentProject.sceneCount)
-                setScenes(currentProject.id, scenes)
-
-                setProgress({ step: 'script', current: 1, total: 1, message: `Created ${scenes.length} scenes` })
-                await new Promise(r => setTimeout(r, 500))
-            }
-
-            // Get fresh state
-            const project = useProjectStore.getState().currentProject
-            if (!project) throw new Error('Project not found')
-
-            // Step 2: Generate Images
-            const hasAllImages = project.scenes.every(s => s.imageUrl)
-            if (!hasAllImages) {
-                setProjectStatus(project.id, 'generating_images')
-
-                for (let i = 0; i < project.scenes.length; i++) {
-                    const scene = project.scenes[i]
-                    if (scene.imageUrl) continue // Skip if already has image
-
-                    setProgress({
-                        step: 'images',
-                        current: i + 1,
-                        total: project.scenes.length,
-                        message: `Generating image ${i + 1}/${project.scenes.length}`
-                    })
-
-                    const imageBlob = await cloudflareService.generateImage(scene.imagePrompt, project.aspectRatio)
-                    if (imageBlob) {
-                        const imageUrl = URL.createObjectURL(imageBlob)
-                        updateScene(project.id, scene.id, { imageBlob, imageUrl })
-                    }
-                }
-            }
-
-            // Step 3: Generate Audio
-            const latestProject = useProjectStore.getState().currentProject
-            if (!latestProject) throw new Error('Project not found')
-
-            if (!latestProject.audioBlob) {
-                setProjectStatus(latestProject.id, 'generating_audio')
-                setProgress({ step: 'audio', current: 0, total: 1, message: 'Generating voiceover...' })
-
-                const audioBlob = await ttsService.generateSpeechForScenes(
-                    latestProject.scenes,
-                    'nova',
-                    (current, total, msg) => {
-                        setProgress({ step: 'audio', current, total, message: msg })
-                    }
-                )
-
-                if (audioBlob) {
-                    setAudio(latestProject.id, audioBlob)
-                } else {
-                    throw new Error('Failed to generate audio')
-                }
-            }
-
-            // Step 4: Generate Captions with word timings
-            const projectWithAudio = useProjectStore.getState().currentProject
-            if (!projectWithAudio) throw new Error('Project not found')
-
-            if (!projectWithAudio.captions || projectWithAudio.captions.length === 0) {
-                setProjectStatus(projectWithAudio.id, 'generating_captions')
-                setProgress({ step: 'captions', current: 0, total: 1, message: 'Transcribing audio...' })
-
-                // Try to get word-level transcription
-                let captions: Caption[] = []
-
-                if (projectWithAudio.audioBlob) {
-                    const transcription = await cloudflareService.transcribeAudio(projectWithAudio.audioBlob)
-
-                    if (transcription && transcription.words.length > 0) {
-                        // Create captions from transcription with word timings
-                        captions = createCaptionsFromTranscription(transcription.words, projectWithAudio.scenes)
-                    }
-                }
-
-                // Fallback: create captions from scene text
-                if (captions.length === 0) {
-                    let currentTime = 0
-                    captions = projectWithAudio.scenes.map((scene, i) => {
-                        // Generate word timings from scene text
-                        const words = scene.text.split(/\s+/).filter(Boolean)
-                        const wordDuration = scene.duration / words.length
-                        const wordTimings: WordTiming[] = words.map((word, wi) => ({
-                            word,
-                            start: currentTime + wi * wordDuration,
-                            end: currentTime + (wi + 1) * wordDuration
-                        }))
-
-                        const caption: Caption = {
-                            id: `caption-${i}`,
-                            startTime: currentTime,
-                            endTime: currentTime + scene.duration,
-                            text: scene.text,
-                            words: wordTimings
-                        }
-                        currentTime += scene.duration
-                        return caption
-                    })
-                }
-
-                setCaptions(projectWithAudio.id, captions)
-                setProgress({ step: 'captions', current: 1, total: 1, message: `Created ${captions.length} captions` })
-            }
-
-            // Step 5: Compose Video
-            const finalProject = useProjectStore.getState().currentProject
-            if (!finalProject) throw new Error('Project not found')
-
-            if (!finalProject.videoBlob) {
-                setProjectStatus(finalProject.id, 'composing_video')
-
-                const videoBlob = await videoComposer.composeVideo(
-                    finalProject.scenes,
-                    finalProject.audioBlob!,
-                    finalProject.captions!,
-                    finalProject.captionSettings,
-                    finalProject.aspectRatio,
-                    (msg) => setProgress({ step: 'video', current: 0, total: 1, message: msg })
-                )
-
-                if (videoBlob) {
-                    setVideo(finalProject.id, videoBlob)
-                    setProjectStatus(finalProject.id, 'completed')
-                    setProgress({ step: 'complete', current: 1, total: 1, message: 'Video complete!' })
-                } else {
-                    throw new Error('Failed to compose video')
-                }
-            }
-        } catch (error) {
-            console.error('Pipeline error:', error)
-            if (currentProject) {
-                setProjectStatus(currentProject.id, 'error')
-                setProgress({ step: 'error', current: 0, total: 1, message: `Error: ${error}` })
-            }
-        } finally {
-            setIsGenerating(false)
-            isRunning.current = false
-        }
-    }, [currentProject, setIsGenerating, setProjectStatus, setProgress, updateProject, setScenes, updateScene, setAudio, setCaptions, setVideo])
-
-    // Auto-start when project is loaded
+    // Queue when project is loaded, or set back to draft to run again
     useEffect(() => {
-        if (currentProject && currentProject.status === 'draft' && !isRunning.current) {
-            runAutomatedPipeline()
+        if (currentProject && currentProject.status === 'draft') {
+            renderQueue.enqueue(currentProject.id)
         }
-    }, [currentProject?.id])
+    }, [currentProject?.id, currentProject?.status])
 
     const exportVideo = useCallback(() => {
-        if (!currentProject?.videoBlob) return
+        if (!currentProject?.videoUrl) return
 
-        const url = URL.createObjectURL(currentProject.videoBlob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = `${currentProject.name.replace(/\s+/g, '_')}.webm`
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
+        projectAssetService
+            .exportAsset(currentProject.id, currentProject.videoUrl, `${currentProject.name.replace(/\s+/g, '_')}.webm`)
+            .catch((error) => console.error('Export error:', error))
     }, [currentProject])
 
     if (!currentProject) {
@@ -288,7 +132,7 @@ export function VideoEditor() {
                     {steps.map((step, i) => {
                         const isComplete = i < stepIndex
                         const isCurrent = step.id === currentStep
-                        const isActive = isGenerating && isCurrent
+                        const isActive = isRunning && !isPaused && isCurrent
 
                         return (
                             <div key={step.id} className="flex items-center shrink-0">
@@ -318,22 +162,92 @@ export function VideoEditor() {
             {/* Main Content */}
             <div className="flex-1 overflow-auto p-6">
                 <div className="max-w-4xl mx-auto">
+                    {/* Resuming sets the project back to draft, which starts the pipeline */}
+                    {(currentProject.status === 'interrupted' || currentProject.status === 'cancelled') && (
+                        <div className="mb-6">
+                            <InterruptedRunNotice project={currentProject} />
+                        </div>
+                    )}
+
+                    {/* Last run failed; finished steps are kept for the retry */}
+                    {currentProject.status === 'error' && !job && lastError && (
+                        <div className="p-4 mb-6 bg-red-50 border border-red-100 rounded-xl">
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <HugeiconsIcon icon={Alert02Icon} className="w-5 h-5 text-red-500 shrink-0" />
+                                    <p className="text-sm text-red-700 break-words min-w-0">
+                                        {lastError.failedChunks
+                                            ? 'Parts of the voiceover could not be generated, so the video was not made with gaps in it.'
+                                            : lastError.message}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => renderQueue.enqueue(currentProject.id)}
+                                    title={lastError.failedChunks ? 'Chunks that worked are reused while the app stays open' : undefined}
+                                    className="gradient-btn inline-flex items-center gap-1.5 px-3 py-1.5 text-white text-xs font-semibold rounded-lg shrink-0"
+                                >
+                                    <HugeiconsIcon icon={RefreshIcon} className="w-3.5 h-3.5" />
+                                    {lastError.failedChunks ? 'Retry failed chunks' : 'Try again'}
+                                </button>
+                            </div>
+                            {lastError.failedChunks && (
+                                <ul className="mt-3 ml-8 space-y-1 text-xs text-red-600">
+                                    {lastError.failedChunks.map((chunk) => (
+                                        <li key={`${chunk.sceneIndex}-${chunk.lineIndex}-${chunk.index}`} className="truncate">
+                                            {chunk.sceneIndex !== undefined ? `Scene ${chunk.sceneIndex + 1}, ` : ''}
+                                            {chunk.lineIndex !== undefined ? `line ${chunk.lineIndex + 1}, ` : ''}
+                                            chunk {chunk.index + 1}{' '}
+                                            ({chunk.reason}): “{chunk.text.slice(0, 80)}”
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
                     {/* Progress Card */}
-                    {progress && currentStep !== 'complete' && (
+                    {job && currentStep !== 'complete' && (
                         <div className="card p-6 mb-6 animate-slide-up">
                             <div className="flex items-center gap-4 mb-4">
                                 <div className="w-12 h-12 bg-primary-100 rounded-xl flex items-center justify-center">
-                                    <HugeiconsIcon icon={Loading01Icon} className="w-6 h-6 text-primary-600 animate-spin" />
+                                    <HugeiconsIcon
+                                        icon={!isRunning ? Clock01Icon : isPaused ? PauseIcon : Loading01Icon}
+                                        className={`w-6 h-6 text-primary-600 ${isRunning && !isPaused ? 'animate-spin' : ''}`}
+                                    />
                                 </div>
                                 <div className="flex-1">
-                                    <h3 className="font-bold text-slate-900">{progress.message}</h3>
-                                    {progress.total > 1 && (
+                                    <h3 className="font-bold text-slate-900">
+                                        {!isRunning ? 'Waiting in the render queue' : isPaused ? 'Paused' : progress?.message ?? 'Starting...'}
+                                    </h3>
+                                    {queuePosition !== null ? (
+                                        <p className="text-sm text-slate-500">Position {queuePosition} in the queue</p>
+                                    ) : progress && progress.total > 1 && (
                                         <p className="text-sm text-slate-500">{progress.current} of {progress.total}</p>
                                     )}
                                 </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    {isRunning && (
+                                        <button
+                                            onClick={() => isPaused ? renderQueue.resume(currentProject.id) : renderQueue.pause(currentProject.id)}
+                                            title={isPaused ? 'Carry on from where it paused' : 'Pause before the next image, voiceover chunk or video frame'}
+                                            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-slate-200 bg-white text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                                        >
+                                            <HugeiconsIcon icon={isPaused ? PlayIcon : PauseIcon} className="w-3.5 h-3.5" />
+                                            {isPaused ? 'Resume' : 'Pause'}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => renderQueue.remove(currentProject.id)}
+                                        title={isRunning ? 'Stop now; finished steps are kept so it can be resumed' : 'Take it out of the queue'}
+                                        className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 bg-white text-red-600 text-xs font-semibold rounded-lg hover:bg-red-50"
+                                    >
+                                        <HugeiconsIcon icon={Cancel01Icon} className="w-3.5 h-3.5" />
+                                        Cancel
+                                    </button>
+                                </div>
                             </div>
 
-                            {progress.total > 1 && (
+                            {isRunning && progress && progress.total > 1 && (
                                 <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
                                     <div
                                         className="h-full bg-gradient-to-r from-primary-500 to-indigo-500 transition-all duration-300"
@@ -486,32 +400,54 @@ export function VideoEditor() {
                                         </div>
                                     </div>
 
+                                    {/* Speaker Labels */}
+                                    {isDialogue && (
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-700 mb-1">Show Speakers</label>
+                                            <select
+                                                value={captionSettings.speakerLabels}
+                                                onChange={(e) => setCaptionSettingsState({ ...captionSettings, speakerLabels: e.target.value as SpeakerLabelStyle })}
+                                                className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm"
+                                            >
+                                                {SPEAKER_LABEL_STYLES.map((style) => (
+                                                    <option key={style.id} value={style.id}>{style.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+
                                     {/* Re-render Button */}
                                     <button
                                         onClick={async () => {
                                             if (!currentProject || isReRendering) return
                                             setIsReRendering(true)
-                                            setProgress({ step: 'video', current: 0, total: 1, message: 'Re-rendering with new captions...' })
+                                            // Also marks the app busy so update restarts wait for the recording
+                                            setIsGenerating(true)
 
                                             try {
-                                                updateProject(currentProject.id, { captionSettings })
+                                                // Names and colours only change captions; voices need a re-voice
+                                                const labelled = currentProject.speakers?.map((speaker) => {
+                                                    const edited = speakers.find((s) => s.id === speaker.id)
+                                                    return edited ? { ...edited, voice: speaker.voice } : speaker
+                                                })
+                                                updateProject(currentProject.id, { captionSettings, speakers: labelled })
                                                 const videoBlob = await videoComposer.composeVideo(
                                                     currentProject.scenes,
-                                                    currentProject.audioBlob!,
+                                                    await projectAssetService.loadBlob(currentProject.audioUrl!),
                                                     currentProject.captions!,
                                                     captionSettings,
                                                     currentProject.aspectRatio,
-                                                    (msg) => setProgress({ step: 'video', current: 0, total: 1, message: msg })
+                                                    labelled ?? []
                                                 )
                                                 if (videoBlob) {
-                                                    setVideo(currentProject.id, videoBlob)
+                                                    await setVideo(currentProject.id, videoBlob)
                                                 }
                                             } catch (e) {
                                                 console.error('Re-render error:', e)
                                             }
 
                                             setIsReRendering(false)
-                                            setProgress(null)
+                                            setIsGenerating(false)
                                         }}
                                         disabled={isReRendering}
                                         className="w-full py-3 bg-indigo-100 text-indigo-700 font-semibold rounded-xl hover:bg-indigo-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
@@ -529,6 +465,25 @@ export function VideoEditor() {
                                         )}
                                     </button>
 
+                                    {/* Voiceover */}
+                                    <div className="space-y-3 pt-4 border-t border-slate-100">
+                                        <h3 className="font-bold text-slate-900">Voiceover</h3>
+                                        {isDialogue && (
+                                            <SpeakerPicker value={speakers} onChange={setSpeakers} voiceSettings={voiceSettings} disabled={isReRendering} />
+                                        )}
+                                        <VoicePicker value={voiceSettings} onChange={setVoiceSettings} disabled={isReRendering} hideVoice={isDialogue} />
+                                        {/* Back to draft without the voiceover, which queues the run again */}
+                                        <button
+                                            onClick={() => revoiceProject(currentProject.id, voiceSettings, isDialogue ? speakers : undefined)}
+                                            disabled={isReRendering}
+                                            title="Keeps the script and images; the voiceover, captions and video are made again"
+                                            className="w-full py-3 bg-slate-100 text-slate-700 font-semibold rounded-xl hover:bg-slate-200 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                                        >
+                                            <HugeiconsIcon icon={RefreshIcon} className="w-5 h-5" />
+                                            Re-voice Video
+                                        </button>
+                                    </div>
+
                                     {/* Download Button */}
                                     <button
                                         onClick={exportVideo}
@@ -546,41 +501,3 @@ export function VideoEditor() {
         </div>
     )
 }
-
-/**
- * Create captions from Whisper transcription with word timings
- */
-function createCaptionsFromTranscription(words: WordTiming[], scenes: { duration: number }[]): Caption[] {
-    const captions: Caption[] = []
-    let wordIndex = 0
-    let sceneStartTime = 0
-
-    for (let i = 0; i < scenes.length; i++) {
-        const scene = scenes[i]
-        const sceneEndTime = sceneStartTime + scene.duration
-
-        // Collect words that fall within this scene's timeframe
-        const sceneWords: WordTiming[] = []
-        let captionText = ''
-
-        while (wordIndex < words.length && words[wordIndex].start < sceneEndTime) {
-            sceneWords.push(words[wordIndex])
-            captionText += (captionText ? ' ' : '') + words[wordIndex].word
-            wordIndex++
-        }
-
-        if (sceneWords.length > 0) {
-            captions.push({
-                id: `caption-${i}`,
-                startTime: sceneStartTime,
-                endTime: sceneEndTime,
-                text: captionText,
-                words: sceneWords
-            })
-        }
-
-        sceneStartTime = sceneEndTime
-    }
-
-    return captions
-}
@@ -0,0 +1,67 @@
+/**
+ * ApiKeyService - Which provider keys are stored, cached for the other services
+ *
+ * The keys themselves stay encrypted in the main process; requests that need
+ * them name a credential and the HTTP gateway signs them.
+ */
+import type { ApiCredentials, ApiKeyStatus, ApiProvider } from '../types'
+
+const PROVIDER_NAMES: Record<ApiProvider, string> = {
+  gemini: 'Google Gemini',
+  cloudflare: 'Cloudflare AI'
+}
+
+/**
+ * A provider's keys are not saved, so retrying the request cannot help
+ */
+export class MissingApiKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MissingApiKeyError'
+  }
+}
+
+export class ApiKeyService {
+  private status: Promise<ApiKeyStatus> | null = null
+
+  getStatus(): Promise<ApiKeyStatus> {
+    if (!this.status) {
+      this.status = window.api.getApiKeyStatus()
+      // Ask again next time instead of caching a failure
+      this.status.catch(() => {
+        this.status = null
+      })
+    }
+    return this.status
+  }
+
+  /**
+   * Status of a provider's keys, failing with a pointer to Settings when unset
+   */
+  async require<P extends ApiProvider>(provider: P): Promise<ApiKeyStatus[P]> {
+    const status = (await this.getStatus())[provider]
+    if (!status.configured) {
+      throw new MissingApiKeyError(
+        `${PROVIDER_NAMES[provider]} is not set up. Add its API key in Settings.`
+      )
+    }
+    return status
+  }
+
+  async save<P extends ApiProvider>(
+    provider: P,
+    credentials: ApiCredentials[P]
+  ): Promise<ApiKeyStatus> {
+    const status = await window.api.setApiCredentials(provider, credentials)
+    this.status = Promise.resolve(status)
+    return status
+  }
+
+  async clear(provider: ApiProvider): Promise<ApiKeyStatus> {
+    const status = await window.api.clearApiCredentials(provider)
+    this.status = Promise.resolve(status)
+    return status
+  }
+}
+
+export const apiKeyService = new ApiKeyService()
@@ -0,0 +1,130 @@
+/**
+ * AudioService - Measuring and joining voiceover clips
+ *
+ * Clips are decoded in an OfflineAudioContext, which never opens an audio
+ * output device, joined as samples and written out as one 16-bit PCM WAV.
+ * Gluing MP3 files together byte for byte keeps every file's headers and
+ * encoder padding, which throws off durations and seeking.
+ */
+
+// TTS voices are generated at 24 kHz, so this keeps every sample they have
+const SAMPLE_RATE = 24000
+
+export interface JoinOptions {
+  // Silence between clips, in seconds
+  gapSeconds?: number
+  // Overlap where one clip fades into the next, in seconds; ignored when there is a gap
+  crossfadeSeconds?: number
+}
+
+export interface JoinedAudio {
+  blob: Blob
+  // Exact length of the joined audio in seconds
+  duration: number
+  // Where each clip starts in the joined audio, in seconds
+  clipStarts: number[]
+}
+
+export class AudioService {
+  /**
+   * Exact length of an encoded clip in seconds, from its decoded samples
+   */
+  async getDuration(blob: Blob): Promise<number> {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE)
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+    return buffer.duration
+  }
+
+  /**
+   * Join clips into one narration, in order, sample-accurately
+   */
+  async concatenate(clips: Blob[], options: JoinOptions = {}): Promise<JoinedAudio> {
+    const decoded = await Promise.all(clips.map((clip) => this.decodeMono(clip)))
+    const gap = Math.round((options.gapSeconds ?? 0) * SAMPLE_RATE)
+    const requestedFade = gap > 0 ? 0 : Math.round((options.crossfadeSeconds ?? 0) * SAMPLE_RATE)
+
+    // A fade can be no longer than either clip it joins
+    const fades = decoded
+      .slice(1)
+      .map((samples, i) => Math.min(requestedFade, samples.length, decoded[i].length))
+
+    const length =
+      decoded.reduce((acc, samples) => acc + samples.length, 0) +
+      gap * Math.max(0, decoded.length - 1) -
+      fades.reduce((acc, fade) => acc + fade, 0)
+    const output = new Float32Array(length)
+    const clipStarts: number[] = []
+
+    let offset = 0
+    decoded.forEach((samples, i) => {
+      const fade = i > 0 ? fades[i - 1] : 0
+      offset -= fade
+      clipStarts.push(offset / SAMPLE_RATE)
+
+      for (let s = 0; s < samples.length; s++) {
+        if (s < fade) {
+          // Equal-power crossfade with the end of the previous clip
+          const t = (s + 0.5) / fade
+          output[offset + s] =
+            output[offset + s] * Math.cos((t * Math.PI) / 2) +
+            samples[s] * Math.sin((t * Math.PI) / 2)
+        } else {
+          output[offset + s] = samples[s]
+        }
+      }
+      offset += samples.length + gap
+    })
+
+    return {
+      blob: this.encodeWav(output),
+      duration: length / SAMPLE_RATE,
+      clipStarts
+    }
+  }
+
+  private async decodeMono(blob: Blob): Promise<Float32Array> {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE)
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0)
+
+    const mono = new Float32Array(buffer.length)
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel)
+      for (let s = 0; s < data.length; s++) {
+        mono[s] += data[s] / buffer.numberOfChannels
+      }
+    }
+    return mono
+  }
+
+  private encodeWav(samples: Float32Array): Blob {
+    const bytesPerSample = 2
+    const dataSize = samples.length * bytesPerSample
+    const view = new DataView(new ArrayBuffer(44 + dataSize))
+    const writeText = (offset: number, text: string): void => {
+      for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+    }
+
+    writeText(0, 'RIFF')
+    view.setUint32(4, 36 + dataSize, true)
+    writeText(8, 'WAVE')
+    writeText(12, 'fmt ')
+    view.setUint32(16, 16, true)
+    view.setUint16(20, 1, true) // PCM
+    view.setUint16(22, 1, true) // mono
+    view.setUint32(24, SAMPLE_RATE, true)
+    view.setUint32(28, SAMPLE_RATE * bytesPerSample, true)
+    view.setUint16(32, bytesPerSample, true)
+    view.setUint16(34, 8 * bytesPerSample, true)
+    writeText(36, 'data')
+    view.setUint32(40, dataSize, true)
+
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]))
+      view.setInt16(44 + i * bytesPerSample, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+    }
+    return new Blob([view], { type: 'audio/wav' })
+  }
+}
+
+export const audioService = new AudioService()
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { automationService } from './AutomationService'
+import { useProjectStore } from '../stores/ProjectStore'
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_VOICE_SETTINGS, type Project } from '../types'
+
+vi.hoisted(() => {
+  // The project store persists to localStorage, which Node does not have
+  const items = new Map<string, string>()
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  } as Storage
+})
+
+function createProject(audioUrl: string): Project {
+  return {
+    id: 'project-1',
+    name: 'Volcanoes',
+    topic: 'How volcanoes form',
+    sceneCount: 1,
+    targetDuration: 1,
+    aspectRatio: '9:16',
+    scenes: [],
+    captionSettings: DEFAULT_CAPTION_SETTINGS,
+    voiceSettings: DEFAULT_VOICE_SETTINGS,
+    audioUrl,
+    status: 'completed',
+    createdAt: new Date(0),
+    updatedAt: new Date(0)
+  }
+}
+
+describe('AutomationService', () => {
+  beforeEach(() => {
+    useProjectStore.setState({ projects: [] })
+  })
+
+  it.each([
+    { name: 'voiceover.wav', contentType: 'audio/wav' },
+    { name: 'voiceover.mp3', contentType: 'audio/mpeg' }
+  ])('serves $name as $contentType', async ({ name, contentType }) => {
+    // Asset URLs carry a cache-buster after the file name
+    const url = `autovid-asset://projects/project-1/${name}?v=1760000000000`
+    useProjectStore.setState({ projects: [createProject(url)] })
+
+    const result = await automationService.handle({
+      type: 'get-artifact',
+      projectId: 'project-1',
+      artifact: 'audio'
+    })
+
+    expect(result).toEqual({ ok: true, data: { type: 'asset', url, contentType } })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * AutomationService - Answers automation API requests from the project store
+ *
+ * The main process runs the localhost server and forwards each request here,
+ * so API-created projects go through the same store actions as the dashboard.
+ */
+import { useProjectStore } from '../stores/ProjectStore'
+import { useRecoveryStore } from '../stores/RecoveryStore'
+import { useRenderQueueStore, getQueuePosition } from '../stores/RenderQueueStore'
+import { renderQueue } from './RenderQueue'
+import { projectAssetService } from './ProjectAssetService'
+import { DEFAULT_CAPTION_SETTINGS } from '../types'
+import type {
+  AutomationArtifact,
+  AutomationArtifactData,
+  AutomationCommand,
+  AutomationProject,
+  AutomationResult,
+  Project,
+  ProjectSpec
+} from '../types'
+
+class AutomationError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'AutomationError'
+  }
+}
+
+export class AutomationService {
+  async handle(command: AutomationCommand): Promise<AutomationResult> {
+    try {
+      if (useRecoveryStore.getState().recovery) {
+        throw new AutomationError(503, 'Saved projects need recovering in the app first')
+      }
+      return { ok: true, data: this.run(command) }
+    } catch (error) {
+      return {
+        ok: false,
+        status: error instanceof AutomationError ? error.status : 500,
+        error: (error as Error).message
+      }
+    }
+  }
+
+  private run(command: AutomationCommand): unknown {
+    switch (command.type) {
+      case 'list-projects':
+        return useProjectStore.getState().projects.map((project) => this.describe(project))
+      case 'get-project':
+        return this.describe(this.find(command.projectId))
+      case 'create-project':
+        return this.create(command.spec, command.start)
+      case 'start-project':
+        return this.start(command.projectId)
+      case 'get-artifact':
+        return this.getArtifact(this.find(command.projectId), command.artifact)
+    }
+  }
+
+  private find(projectId: string): Project {
+    const project = useProjectStore.getState().projects.find((p) => p.id === projectId)
+    if (!project) throw new AutomationError(404, `No project with id ${projectId}`)
+    return project
+  }
+
+  private describe(project: Project): AutomationProject {
+    const { jobs } = useRenderQueueStore.getState()
+    const job = jobs.find((j) => j.projectId === project.id)
+
+    const artifacts: AutomationArtifact[] = []
+    if (project.script) artifacts.push('script')
+    if (project.captions?.length) artifacts.push('captions')
+    if (project.audioUrl) artifacts.push('audio')
+    if (project.videoUrl) artifacts.push('video')
+
+    return {
+      id: project.id,
+      name: project.name,
+      topic: project.topic,
+      status: project.status,
+      sceneCount: project.sceneCount,
+      aspectRatio: project.aspectRatio,
+      progress: job?.state === 'running' ? job.progress : null,
+      queuePosition: getQueuePosition(jobs, project.id),
+      artifacts,
+      createdAt: new Date(project.createdAt).toISOString(),
+      updatedAt: new Date(project.updatedAt).toISOString()
+    }
+  }
+
+  private create(spec: ProjectSpec, start: boolean): AutomationProject {
+    const { currentProject, createProject, setCurrentProject } = useProjectStore.getState()
+    const project = createProject(
+      spec.name,
+      spec.topic,
+      spec.sceneCount,
+      spec.duration,
+      spec.aspectRatio,
+      {
+        ...DEFAULT_CAPTION_SETTINGS,
+        template: spec.captionTemplate
+      },
+      { voice: spec.voice, speed: spec.speed, format: spec.voiceFormat }
+    )
+
+    // createProject selects the new project; leave the user where they were
+    setCurrentProject(currentProject)
+    if (start) renderQueue.enqueue(project.id)
+    return this.describe(this.find(project.id))
+  }
+
+  private start(projectId: string): AutomationProject {
+    const project = this.find(projectId)
+    if (project.status === 'completed') {
+      throw new AutomationError(409, 'This project has already been rendered')
+    }
+
+    // Finished steps are kept, so a failed project picks up where it stopped
+    renderQueue.enqueue(project.id)
+    return this.describe(this.find(projectId))
+  }
+
+  private getArtifact(project: Project, artifact: AutomationArtifact): AutomationArtifactData {
+    switch (artifact) {
+      case 'script':
+        if (project.script) {
+          return { type: 'text', text: project.script, contentType: 'text/plain; charset=utf-8' }
+        }
+        break
+      case 'captions':
+        if (project.captions?.length) {
+          return {
+            type: 'text',
+            text: JSON.stringify(project.captions, null, 2),
+            contentType: 'application/json; charset=utf-8'
+          }
+        }
+        break
+      case 'audio':
+        if (project.audioUrl) {
+          // Voiceovers from before they were joined as WAV are MP3; the URL ends in a cache-buster
+          const name = projectAssetService.getAssetName(project.audioUrl)
+          return {
+            type: 'asset',
+            url: project.audioUrl,
+            contentType: name.endsWith('.wav') ? 'audio/wav' : 'audio/mpeg'
+          }
+        }
+        break
+      case 'video':
+        if (project.videoUrl) {
+          return { type: 'asset', url: project.videoUrl, contentType: 'video/webm' }
+        }
+        break
+    }
+    throw new AutomationError(404, `This project has no ${artifact} yet`)
+  }
+}
+
+export const automationService = new AutomationService()
@@ -1,54 +1,94 @@
 /**
  * CloudflareService - Image generation with aspect ratio support and Whisper transcription
  */
+import { httpGateway, type GatewayInit } from './HttpGateway'
+import { apiKeyService, MissingApiKeyError } from './ApiKeyService'
+import { parseRetryAfter, sleep } from './retry'
 
-const CORS_PROXY = 'https://corsproxy.io/?'
+const API_BASE = 'https://api.cloudflare.com/client/v4/accounts'
 
-export class CloudflareService {
-  private accountId: string
-  private apiToken: string
+// Waits on HTTP 429 before a request is given up on
+const MAX_RATE_LIMIT_RETRIES = 5
+// Used when a 429 has no Retry-After, doubling with each retry
+const DEFAULT_RETRY_DELAY_MS = 2000
 
-  constructor() {
-    this.accountId = import.meta.env.VITE_CLOUDFLARE_ACCOUNT_ID || ''
-    this.apiToken = import.meta.env.VITE_CLOUDFLARE_API_TOKEN || ''
-  }
+export class CloudflareService {
+  // Shared by every request, so parallel image requests back off together
+  private rateLimitedUntil = 0
 
   /**
-   * Generate image at specific aspect ratio using FLUX model
+   * Account from the stored credentials; the token is added by the main process
    */
-  async generateImage(prompt: string, aspectRatio: string = '9:16'): Promise<Blob | null> {
-    if (!this.accountId || !this.apiToken) {
-      console.error('Cloudflare credentials not configured')
-      return null
+  private async getAccountId(): Promise<string> {
+    // Keys are read when first needed, so a missing key only fails the call that uses it
+    const { accountId } = await apiKeyService.require('cloudflare')
+    if (!accountId) {
+      throw new MissingApiKeyError('Cloudflare AI has no account ID. Add it in Settings.')
     }
+    return accountId
+  }
 
-    try {
-      const url = `${CORS_PROXY}https://api.cloudflare.com/client/v4/accounts/${this.accountId}/ai/run/@cf/black-forest-labs/flux-1-schnell`
-
-      // Get dimensions based on aspect ratio
-      const dimensions = this.getImageDimensions(aspectRatio)
-
-      // Use FormData for FLUX model
-      const formData = new FormData()
-      formData.append('prompt', prompt)
-      formData.append('num_steps', '4')
-      formData.append('width', dimensions.width.toString())
-      formData.append('height', dimensions.height.toString())
-
-      const response = await fetch(url, {
+  /**
+   * POST to Workers AI, waiting out rate limits. A 429 pauses every request
+   * until its Retry-After has passed, not just the one that got it
+   */
+  private async post(
+    url: string,
+    init: Pick<GatewayInit, 'headers' | 'body' | 'signal'>,
+    onRateLimited?: (retryInSeconds: number) => void
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.rateLimitedUntil - Date.now()
+      if (wait > 0) await sleep(wait, init.signal)
+
+      const response = await httpGateway.fetch(url, {
+        ...init,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`
-        },
-        body: formData
+        credential: 'cloudflare'
       })
+      if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) return response
+
+      await response.body?.cancel()
+      const delay =
+        parseRetryAfter(response.headers.get('retry-after')) ??
+        DEFAULT_RETRY_DELAY_MS * 2 ** attempt
+      this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay)
+      onRateLimited?.(Math.ceil(delay / 1000))
+    }
+  }
 
-      if (!response.ok) {
-        // Fallback to JSON body
-        const jsonResponse = await fetch(url, {
-          method: 'POST',
+  /**
+   * Generate image at specific aspect ratio using FLUX model. Throws when the
+   * API keeps failing, so a scene is never silently left without an image
+   */
+  async generateImage(
+    prompt: string,
+    aspectRatio: string = '9:16',
+    signal?: AbortSignal,
+    onRateLimited?: (retryInSeconds: number) => void
+  ): Promise<Blob> {
+    const accountId = await this.getAccountId()
+    const url = `${API_BASE}/${accountId}/ai/run/@cf/black-forest-labs/flux-1-schnell`
+
+    // Get dimensions based on aspect ratio
+    const dimensions = this.getImageDimensions(aspectRatio)
+
+    // Use FormData for FLUX model
+    const formData = new FormData()
+    formData.append('prompt', prompt)
+    formData.append('num_steps', '4')
+    formData.append('width', dimensions.width.toString())
+    formData.append('height', dimensions.height.toString())
+
+    let response = await this.post(url, { body: formData, signal }, onRateLimited)
+
+    // A 429 here has used up its retries, and the JSON body would get one too
+    if (!response.ok && response.status !== 429) {
+      // Fallback to JSON body
+      response = await this.post(
+        url,
+        {
           headers: {
-            'Authorization': `Bearer ${this.apiToken}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
@@ -56,24 +96,24 @@ export class CloudflareService {
             num_steps: 4,
             width: dimensions.width,
             height: dimensions.height
-          })
-        })
-        
-        if (!jsonResponse.ok) {
-          throw new Error(`Cloudflare API error: ${jsonResponse.status}`)
-        }
-        
-        return await this.handleImageResponse(jsonResponse)
-      }
+          }),
+          signal
+        },
+        onRateLimited
+      )
+    }
 
-      return await this.handleImageResponse(response)
-    } catch (error) {
-      console.error('Image generation error:', error)
-      return null
+    if (response.status === 429) {
+      throw new Error(`Cloudflare API still rate limited after ${MAX_RATE_LIMIT_RETRIES} retries`)
+    }
+    if (!response.ok) {
+      throw new Error(`Cloudflare API error: ${response.status}`)
     }
+
+    return await this.handleImageResponse(response)
   }
 
-  private async handleImageResponse(response: Response): Promise<Blob | null> {
+  private async handleImageResponse(response: Response): Promise<Blob> {
     const contentType = response.headers.get('content-type') || ''
     
     if (contentType.includes('image')) {
@@ -90,7 +130,7 @@ export class CloudflareService {
       return new Blob([bytes], { type: 'image/png' })
     }
     
-    return null
+    throw new Error('Cloudflare API returned no image')
   }
 
   private getImageDimensions(aspectRatio: string): { width: number; height: number } {
@@ -110,44 +150,26 @@ export class CloudflareService {
   /**
    * Transcribe audio using Whisper with multipart/form-data
    */
-  async transcribeAudio(audioBlob: Blob): Promise<TranscriptionResult | null> {
-    if (!this.accountId || !this.apiToken) {
-      console.error('Cloudflare credentials not configured')
-      return null
-    }
+  async transcribeAudio(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionResult> {
+    const accountId = await this.getAccountId()
+    const url = `${API_BASE}/${accountId}/ai/run/@cf/openai/whisper`
 
-    try {
-      const url = `${CORS_PROXY}https://api.cloudflare.com/client/v4/accounts/${this.accountId}/ai/run/@cf/openai/whisper`
+    const formData = new FormData()
+    formData.append('audio', audioBlob, audioBlob.type.includes('wav') ? 'audio.wav' : 'audio.mp3')
 
-      const formData = new FormData()
-      formData.append('audio', audioBlob, 'audio.mp3')
+    const response = await this.post(url, { body: formData, signal })
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`
-        },
-        body: formData
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('Whisper API error:', response.status, errorText)
-        throw new Error(`Whisper API error: ${response.status}`)
-      }
-
-      const result = await response.json()
-      console.log('Whisper result:', result)
-      
-      if (result.result) {
-        return this.parseWhisperResult(result.result)
-      }
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Whisper API error:', response.status, errorText)
+      throw new Error(`Whisper API error: ${response.status}`)
+    }
 
-      return null
-    } catch (error) {
-      console.error('Transcription error:', error)
-      return null
+    const result = await response.json()
+    if (!result.result) {
+      throw new Error('Whisper returned no transcription')
     }
+    return this.parseWhisperResult(result.result)
   }
 
   private parseWhisperResult(result: any): TranscriptionResult {
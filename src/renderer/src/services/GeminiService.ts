@@ -1,18 +1,49 @@
 /**
  * GeminiService - Handles AI script generation using Google Gemini API
  */
-import { GoogleGenAI, Type } from '@google/genai'
-import type { Scene } from '../types'
+import { httpGateway } from './HttpGateway'
+import { apiKeyService } from './ApiKeyService'
+import type { DialogueLine, Scene, Speaker } from '../types'
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models'
+const MODEL = 'gemini-2.0-flash'
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+}
 
 export class GeminiService {
-  private ai: GoogleGenAI
+  /**
+   * Call generateContent through the main-process gateway and return the text
+   */
+  private async generateContent(
+    prompt: string,
+    generationConfig?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    // Keys are read when first needed, so a missing key only fails the call that uses it
+    await apiKeyService.require('gemini')
+
+    const response = await httpGateway.fetch(`${API_BASE}/${MODEL}:generateContent`, {
+      method: 'POST',
+      credential: 'gemini',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig
+      }),
+      signal
+    })
 
-  constructor() {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY
-    if (!apiKey) {
-      throw new Error('VITE_GEMINI_API_KEY is not defined')
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Gemini API error ${response.status}: ${errorText}`)
     }
-    this.ai = new GoogleGenAI({ apiKey })
+
+    const data: GenerateContentResponse = await response.json()
+    return data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('') ?? ''
   }
 
   /**
@@ -22,7 +53,9 @@ export class GeminiService {
     topic: string,
     targetDurationMinutes: number,
     onProgress?: (message: string) => void,
-    sceneCount?: number
+    sceneCount?: number,
+    signal?: AbortSignal,
+    speakers: Speaker[] = []
   ): Promise<string> {
     onProgress?.('Starting script generation...')
 
@@ -30,13 +63,27 @@ export class GeminiService {
     const targetWordCount = targetDurationMinutes * wordsPerMinute
     const targetSceneCount = sceneCount || Math.max(5, Math.ceil(targetDurationMinutes / 2))
 
+    // Dialogue scripts tag every line with its speaker so each can get its own voice
+    const names = speakers.map((speaker) => speaker.name)
+    const isDialogue = names.length > 1
+    const style = isDialogue
+      ? `- Write it as a natural conversation between ${names.join(' and ')}, who take turns explaining the topic
+- Every line of dialogue MUST start with the speaker's name and a colon, e.g. "${names[0]}: ..."
+- Only use these speakers: ${names.join(', ')}`
+      : `- Write in a conversational, engaging tone suitable for voiceover`
+    const narration = (scene: number): string =>
+      isDialogue
+        ? `${names[0]}: The first line of scene ${scene} goes here...
+${names[1]}: The reply goes here...`
+        : `The narration text for scene ${scene} goes here...`
+
     const prompt = `You are a professional video script writer. Create a detailed, engaging video script about:
 
 TOPIC: ${topic}
 
 REQUIREMENTS:
 - Target length: approximately ${targetWordCount} words (for a ${targetDurationMinutes} minute video)
-- Write in a conversational, engaging tone suitable for voiceover
+${style}
 - Include natural pauses marked with [PAUSE]
 - Create exactly ${targetSceneCount} SCENES, each scene should be about 60-120 seconds of narration
 - Each scene MUST start with [SCENE X] where X is the scene number
@@ -49,28 +96,27 @@ STRICT FORMAT:
 [SCENE 1]
 IMAGE_PROMPT: A stunning detailed visual description here...
 
-The narration text for scene 1 goes here...
+${narration(1)}
 
 [SCENE 2]
 IMAGE_PROMPT: Another detailed visual description...
 
-The narration text for scene 2 goes here...
+${narration(2)}
 
 Write the complete script now with exactly ${targetSceneCount} scenes:`
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: prompt
-      })
+      const text = await this.generateContent(prompt, undefined, signal)
 
-      if (!response.text) {
+      if (!text) {
         throw new Error('No response from Gemini API')
       }
 
       onProgress?.('Script generation complete!')
-      return response.text
+      return text
     } catch (error: any) {
+      // Cancelled runs should not be reported as failures
+      if (signal?.aborted) throw error
       console.error('Gemini API Error:', error)
       throw new Error(`Script generation failed: ${error.message || 'Unknown error'}`)
     }
@@ -79,9 +125,10 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
   /**
    * Parse script into individual scenes
    */
-  parseScriptToScenes(script: string, maxScenes?: number): Scene[] {
+  parseScriptToScenes(script: string, maxScenes?: number, speakers: Speaker[] = []): Scene[] {
     const scenes: Scene[] = []
-    const sceneRegex = /\[SCENE\s*(\d+)\]\s*(?:IMAGE_PROMPT:|Image[_ ]?Prompt:?)\s*(.+?)(?:\n|\r\n)([\s\S]*?)(?=\[SCENE|\[END\]|$)/gi
+    const sceneRegex =
+      /\[SCENE\s*(\d+)\]\s*(?:IMAGE_PROMPT:|Image[_ ]?Prompt:?)\s*(.+?)(?:\n|\r\n)([\s\S]*?)(?=\[SCENE|\[END\]|$)/gi
 
     let match
     let index = 0
@@ -89,7 +136,14 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
     while ((match = sceneRegex.exec(script)) !== null) {
       const sceneNumber = parseInt(match[1])
       const imagePrompt = match[2].trim()
-      const text = match[3].trim().replace(/\[PAUSE\]/g, '').trim()
+      let text = match[3]
+        .trim()
+        .replace(/\[PAUSE\]/g, '')
+        .trim()
+
+      // Dialogue scenes keep their lines; the text is what is said, without the names
+      const lines = speakers.length > 1 ? this.parseDialogue(text, speakers) : undefined
+      if (lines) text = lines.map((line) => line.text).join(' ')
 
       // Estimate duration based on word count (150 words per minute)
       const wordCount = text.split(/\s+/).length
@@ -100,7 +154,8 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
         index: index++,
         text,
         imagePrompt,
-        duration
+        duration,
+        lines
       })
     }
 
@@ -110,7 +165,8 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
         id: 'scene-1',
         index: 0,
         text: script.trim(),
-        imagePrompt: 'A beautiful, cinematic scene representing the topic, detailed illustration, 8k quality',
+        imagePrompt:
+          'A beautiful, cinematic scene representing the topic, detailed illustration, 8k quality',
         duration: 60
       })
     }
@@ -118,14 +174,38 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
     return scenes
   }
 
+  /**
+   * Split a dialogue scene into lines at each "Name:" tag. Untagged text
+   * continues the line before it, or goes to the first speaker at the start
+   */
+  private parseDialogue(text: string, speakers: Speaker[]): DialogueLine[] {
+    const lines: DialogueLine[] = []
+
+    for (const row of text.split(/\r?\n/)) {
+      // Models sometimes bold the name, e.g. "**Alex:**"
+      const tag = row.match(/^\s*\**\s*([^:*]{1,40}?)\s*\**\s*:\s*\**\s*(.*)$/)
+      const speaker =
+        tag && speakers.find((s) => s.name.toLowerCase() === tag[1].trim().toLowerCase())
+      const said = (speaker && tag ? tag[2] : row).trim()
+
+      if (speaker) {
+        lines.push({ speakerId: speaker.id, text: said })
+      } else if (said && lines.length > 0) {
+        lines[lines.length - 1].text += ` ${said}`
+      } else if (said) {
+        lines.push({ speakerId: speakers[0].id, text: said })
+      }
+    }
+    return lines.filter((line) => line.text)
+  }
+
   /**
    * Analyze script and generate scene breakdowns using structured output
    */
   async analyzeScript(scriptText: string, targetSceneCount: number = 5): Promise<Scene[]> {
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: `
+      const text = await this.generateContent(
+        `
           Analyze the following story script. Break it down into exactly ${targetSceneCount} distinct visual scenes.
           For each scene, provide a highly detailed, cinematic visual prompt suitable for an AI image generator.
           Also provide the narration text.
@@ -133,22 +213,22 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
           Script:
           "${scriptText}"
         `,
-        config: {
+        {
           responseMimeType: 'application/json',
           responseSchema: {
-            type: Type.OBJECT,
+            type: 'OBJECT',
             properties: {
               scenes: {
-                type: Type.ARRAY,
+                type: 'ARRAY',
                 items: {
-                  type: Type.OBJECT,
+                  type: 'OBJECT',
                   properties: {
-                    sceneNumber: { type: Type.INTEGER },
+                    sceneNumber: { type: 'INTEGER' },
                     visualDescription: {
-                      type: Type.STRING,
+                      type: 'STRING',
                       description: 'Detailed visual prompt for AI image generation'
                     },
-                    narration: { type: Type.STRING, description: 'The narration text for this scene' }
+                    narration: { type: 'STRING', description: 'The narration text for this scene' }
                   },
                   required: ['sceneNumber', 'visualDescription', 'narration']
                 }
@@ -156,13 +236,13 @@ Write the complete script now with exactly ${targetSceneCount} scenes:`
             }
           }
         }
-      })
+      )
 
-      if (!response.text) {
+      if (!text) {
         throw new Error('Failed to analyze script')
       }
 
-      const result = JSON.parse(response.text)
+      const result = JSON.parse(text)
 
       return result.scenes.map((scene: any, index: number) => ({
         id: `scene-${scene.sceneNumber}`,
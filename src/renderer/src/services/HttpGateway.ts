@@ -0,0 +1,110 @@
+/**
+ * HttpGateway - fetch-like client for the main-process HTTP gateway
+ *
+ * Returns a real Response whose body streams in from the main process, and
+ * cancels the main-process request when the AbortSignal fires.
+ */
+import type { ApiProvider, GatewayBody, GatewayFormField } from '../types'
+
+export interface GatewayInit {
+  method?: string
+  // Stored keys the main process signs the request with
+  credential?: ApiProvider
+  headers?: Record<string, string>
+  body?: string | Blob | FormData | Uint8Array
+  signal?: AbortSignal
+}
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+export class HttpGateway {
+  private nextId = 0
+
+  async fetch(url: string, init: GatewayInit = {}): Promise<Response> {
+    const { signal } = init
+    signal?.throwIfAborted()
+
+    const requestId = `http-${Date.now()}-${this.nextId++}`
+    const body = await this.serializeBody(init.body)
+
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    const stream = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c
+      },
+      cancel: () => {
+        window.api.cancelHttpRequest(requestId)
+      }
+    })
+
+    const onAbort = (): void => {
+      window.api.cancelHttpRequest(requestId)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      const head = await window.api.httpRequest(
+        requestId,
+        {
+          url,
+          method: init.method || 'GET',
+          headers: init.headers || {},
+          body,
+          credential: init.credential
+        },
+        (event) => {
+          try {
+            if (event.type === 'chunk') {
+              controller.enqueue(event.data)
+            } else if (event.type === 'end') {
+              signal?.removeEventListener('abort', onAbort)
+              controller.close()
+            } else {
+              signal?.removeEventListener('abort', onAbort)
+              controller.error(signal?.aborted ? signal.reason : new Error(event.message))
+            }
+          } catch {
+            // The consumer already cancelled the stream
+          }
+        }
+      )
+
+      return new Response(NULL_BODY_STATUSES.has(head.status) ? null : stream, {
+        status: head.status,
+        statusText: head.statusText,
+        headers: head.headers
+      })
+    } catch (error) {
+      signal?.removeEventListener('abort', onAbort)
+      // Surface cancellation the same way fetch does
+      signal?.throwIfAborted()
+      throw error
+    }
+  }
+
+  private async serializeBody(body: GatewayInit['body']): Promise<GatewayBody | undefined> {
+    if (body === undefined) return undefined
+    if (typeof body === 'string') return { type: 'text', data: body }
+    if (body instanceof Uint8Array) return { type: 'bytes', data: body }
+    if (body instanceof Blob)
+      return { type: 'bytes', data: new Uint8Array(await body.arrayBuffer()) }
+
+    const fields: GatewayFormField[] = []
+    for (const [name, value] of body.entries()) {
+      if (typeof value === 'string') {
+        fields.push({ name, value })
+      } else {
+        fields.push({
+          name,
+          data: new Uint8Array(await value.arrayBuffer()),
+          filename: value.name || 'blob',
+          contentType: value.type || 'application/octet-stream'
+        })
+      }
+    }
+    return { type: 'form', fields }
+  }
+}
+
+export const httpGateway = new HttpGateway()
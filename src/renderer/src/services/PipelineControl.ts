@@ -0,0 +1,71 @@
+/**
+ * PipelineControl - Cancel and pause for one pipeline run
+ *
+ * Cancelling aborts the signal, which the services pass on to in-flight
+ * requests. Pausing is cooperative: work stops at the next checkpoint, e.g.
+ * before the next image or voiceover chunk, and the recording pauses in place.
+ */
+export class PipelineControl {
+  private abortController = new AbortController()
+  private isPaused = false
+  private listeners = new Set<(paused: boolean) => void>()
+
+  get signal(): AbortSignal {
+    return this.abortController.signal
+  }
+
+  get paused(): boolean {
+    return this.isPaused
+  }
+
+  pause(): void {
+    if (this.isPaused || this.signal.aborted) return
+    this.isPaused = true
+    this.notify()
+  }
+
+  resume(): void {
+    if (!this.isPaused) return
+    this.isPaused = false
+    this.notify()
+  }
+
+  cancel(): void {
+    if (this.signal.aborted) return
+    this.abortController.abort()
+    // Wakes anything waiting at a checkpoint so it can see the abort
+    this.isPaused = false
+    this.notify()
+  }
+
+  /**
+   * Listen for pause and resume; returns the unsubscribe function
+   */
+  onPauseChange(listener: (paused: boolean) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Wait here while paused; throws once cancelled
+   */
+  async checkpoint(): Promise<void> {
+    this.signal.throwIfAborted()
+    if (!this.isPaused) return
+
+    await new Promise<void>((resolve) => {
+      const unsubscribe = this.onPauseChange((paused) => {
+        if (paused) return
+        unsubscribe()
+        resolve()
+      })
+    })
+    this.signal.throwIfAborted()
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.isPaused))
+  }
+}
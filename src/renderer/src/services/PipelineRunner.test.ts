@@ -0,0 +1,367 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  PipelineRunner,
+  type PipelineEvent,
+  type PipelineProviders,
+  type PipelineStore
+} from './PipelineRunner'
+import { MissingApiKeyError } from './ApiKeyService'
+import {
+  DEFAULT_CAPTION_SETTINGS,
+  DEFAULT_VOICE_SETTINGS,
+  type Project,
+  type Scene
+} from '../types'
+
+const PROJECT_ID = 'project-1'
+
+const SCRIPT = `[SCENE 1]
+IMAGE_PROMPT: A volcano at dawn
+
+Volcanoes form where magma reaches the surface.
+
+[SCENE 2]
+IMAGE_PROMPT: Lava flowing into the sea
+
+Lava cools into new rock.`
+
+function createProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: PROJECT_ID,
+    name: 'Volcanoes',
+    topic: 'How volcanoes form',
+    sceneCount: 2,
+    targetDuration: 1,
+    aspectRatio: '9:16',
+    scenes: [],
+    captionSettings: DEFAULT_CAPTION_SETTINGS,
+    voiceSettings: DEFAULT_VOICE_SETTINGS,
+    status: 'draft',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides
+  }
+}
+
+function createScenes(overrides: Partial<Scene> = {}): Scene[] {
+  return [
+    {
+      id: 'scene-1',
+      index: 0,
+      text: 'Volcanoes form where magma reaches the surface.',
+      imagePrompt: 'A volcano at dawn',
+      duration: 10,
+      ...overrides
+    },
+    {
+      id: 'scene-2',
+      index: 1,
+      text: 'Lava cools into new rock.',
+      imagePrompt: 'Lava flowing into the sea',
+      duration: 10,
+      ...overrides
+    }
+  ]
+}
+
+/**
+ * The store actions the runner uses, kept in memory; assets get fake URLs
+ */
+function createFakeStore(initial: Project): { store: PipelineStore; project: () => Project } {
+  let projects = [initial]
+  const update = (id: string, updates: Partial<Project>): void => {
+    projects = projects.map((p) => (p.id === id ? { ...p, ...updates } : p))
+  }
+  const updateScene = (id: string, sceneId: string, updates: Partial<Scene>): void => {
+    const project = projects.find((p) => p.id === id)!
+    update(id, {
+      scenes: project.scenes.map((s) => (s.id === sceneId ? { ...s, ...updates } : s))
+    })
+  }
+
+  const store: PipelineStore = {
+    get projects() {
+      return projects
+    },
+    updateProject: update,
+    setScenes: (id, scenes) => update(id, { scenes }),
+    updateScene,
+    setSceneImage: async (id, sceneId) =>
+      updateScene(id, sceneId, { imageUrl: `asset://${sceneId}.png` }),
+    setSceneAudio: async (id, sceneId, _blob, duration) =>
+      updateScene(id, sceneId, { audioUrl: `asset://voice-${sceneId}.wav`, duration }),
+    setAudio: async (id) => update(id, { audioUrl: 'asset://voiceover.wav' }),
+    setCaptions: (id, captions) => update(id, { captions }),
+    setVideo: async (id) => update(id, { videoUrl: 'asset://video.webm' }),
+    setProjectStatus: (id, status) => update(id, { status })
+  }
+  return { store, project: () => projects[0] }
+}
+
+function createFakeProviders(): PipelineProviders {
+  return {
+    script: {
+      generateScript: vi.fn(async () => SCRIPT),
+      parseScriptToScenes: vi.fn(() => createScenes())
+    },
+    images: {
+      generateImage: vi.fn(async () => new Blob(['image']))
+    },
+    speech: {
+      generateSpeech: vi.fn(async () => new Blob(['speech'])),
+      generateDialogue: vi.fn(async () => null)
+    },
+    audio: {
+      getDuration: vi.fn(async () => 4),
+      concatenate: vi.fn(async (clips: Blob[]) => ({
+        blob: new Blob(['voiceover']),
+        duration: clips.length * 4,
+        clipStarts: clips.map((_, i) => i * 4)
+      }))
+    },
+    transcription: {
+      transcribeAudio: vi.fn(async () => ({
+        text: 'Volcanoes form. Lava cools.',
+        duration: 8,
+        words: [
+          { word: 'Volcanoes', start: 0, end: 1 },
+          { word: 'form.', start: 1, end: 2 },
+          { word: 'Lava', start: 4, end: 5 },
+          { word: 'cools.', start: 5, end: 6 }
+        ]
+      }))
+    },
+    composer: {
+      composeVideo: vi.fn(async () => new Blob(['video']))
+    },
+    assets: {
+      loadBlob: vi.fn(async () => new Blob(['asset']))
+    },
+    settings: {
+      getGenerationSettings: vi.fn(async () => ({ imageConcurrency: 1 }))
+    }
+  }
+}
+
+function setup(project: Project = createProject()): {
+  runner: PipelineRunner
+  providers: PipelineProviders
+  project: () => Project
+  events: PipelineEvent[]
+} {
+  const providers = createFakeProviders()
+  const { store, project: current } = createFakeStore(project)
+  const runner = new PipelineRunner(providers, () => store)
+  const events: PipelineEvent[] = []
+  runner.subscribe((event) => events.push(event))
+  return { runner, providers, project: current, events }
+}
+
+describe('PipelineRunner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('runs every step and completes the project', async () => {
+    const { runner, providers, project, events } = setup()
+
+    await runner.run(PROJECT_ID)
+
+    const result = project()
+    expect(result.status).toBe('completed')
+    expect(result.script).toBe(SCRIPT)
+    expect(result.scenes.every((scene) => scene.imageUrl && scene.audioUrl)).toBe(true)
+    // Scenes are timed from the joined voiceover
+    expect(result.scenes.map((scene) => scene.duration)).toEqual([4, 4])
+    expect(result.audioUrl).toBe('asset://voiceover.wav')
+    expect(result.captions).toHaveLength(2)
+    expect(result.videoUrl).toBe('asset://video.webm')
+
+    expect(providers.images.generateImage).toHaveBeenCalledTimes(2)
+    expect(providers.speech.generateSpeech).toHaveBeenCalledTimes(2)
+    expect(providers.composer.composeVideo).toHaveBeenCalledOnce()
+    expect(events.filter((e) => e.type === 'status').map((e) => e.status)).toEqual([
+      'generating_script',
+      'generating_images',
+      'generating_audio',
+      'generating_captions',
+      'composing_video',
+      'completed'
+    ])
+    expect(events.at(-1)).toEqual({ type: 'complete', projectId: PROJECT_ID })
+  })
+
+  it('resumes without redoing steps or scenes whose output was saved', async () => {
+    const scenes = createScenes({ imageUrl: 'asset://saved.png' })
+    scenes[0].audioUrl = 'asset://voice-scene-1.wav'
+    const { runner, providers, project } = setup(createProject({ script: SCRIPT, scenes }))
+
+    await runner.run(PROJECT_ID)
+
+    expect(project().status).toBe('completed')
+    expect(providers.script.generateScript).not.toHaveBeenCalled()
+    expect(providers.images.generateImage).not.toHaveBeenCalled()
+    expect(providers.speech.generateSpeech).toHaveBeenCalledOnce()
+    expect(providers.speech.generateSpeech).toHaveBeenCalledWith(
+      scenes[1].text,
+      DEFAULT_VOICE_SETTINGS,
+      undefined,
+      expect.anything()
+    )
+    expect(providers.audio.concatenate).toHaveBeenCalledOnce()
+  })
+
+  it('cancels a running step and keeps the finished ones', async () => {
+    const { runner, providers, project, events } = setup()
+    vi.mocked(providers.images.generateImage).mockImplementation(
+      (_prompt, _aspect, signal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason))
+        })
+    )
+
+    const run = runner.run(PROJECT_ID)
+    await vi.waitFor(() => expect(providers.images.generateImage).toHaveBeenCalled())
+    runner.cancel(PROJECT_ID)
+    await run
+
+    expect(project().status).toBe('cancelled')
+    expect(project().interruptedStatus).toBe('generating_images')
+    expect(project().script).toBe(SCRIPT)
+    expect(runner.isRunning(PROJECT_ID)).toBe(false)
+    expect(events.some((e) => e.type === 'error')).toBe(false)
+    expect(events.at(-1)).toEqual({ type: 'cancelled', projectId: PROJECT_ID })
+    expect(providers.speech.generateSpeech).not.toHaveBeenCalled()
+  })
+
+  it('waits for scenes still being saved before a cancelled run settles', async () => {
+    const providers = createFakeProviders()
+    const { store, project } = createFakeStore(
+      createProject({ script: SCRIPT, scenes: createScenes() })
+    )
+    const runner = new PipelineRunner(providers, () => store)
+    vi.mocked(providers.settings.getGenerationSettings).mockResolvedValue({ imageConcurrency: 2 })
+    // The first image is still being written when the second one is cancelled
+    let finishSaving = (): void => {}
+    const saveImage = store.setSceneImage
+    store.setSceneImage = (id, sceneId, blob) =>
+      new Promise((resolve) => {
+        finishSaving = () => resolve(saveImage(id, sceneId, blob))
+      })
+    vi.mocked(providers.images.generateImage).mockImplementation((prompt, _aspect, signal) =>
+      prompt === 'A volcano at dawn'
+        ? Promise.resolve(new Blob(['image']))
+        : new Promise((_resolve, reject) => {
+            signal?.addEventListener('abort', () => reject(signal.reason))
+          })
+    )
+
+    let settled = false
+    const run = runner.run(PROJECT_ID).then(() => {
+      settled = true
+    })
+    await vi.waitFor(() => expect(providers.images.generateImage).toHaveBeenCalledTimes(2))
+    runner.cancel(PROJECT_ID)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(settled).toBe(false)
+
+    finishSaving()
+    await run
+
+    expect(project().status).toBe('cancelled')
+    expect(project().scenes[0].imageUrl).toBe('asset://scene-1.png')
+  })
+
+  it('holds at the next checkpoint while paused and carries on when resumed', async () => {
+    const { runner, providers, project, events } = setup()
+    let finishFirstImage = (): void => {}
+    vi.mocked(providers.images.generateImage).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishFirstImage = () => resolve(new Blob(['image']))
+        })
+    )
+
+    const run = runner.run(PROJECT_ID)
+    await vi.waitFor(() => expect(providers.images.generateImage).toHaveBeenCalledOnce())
+    runner.pause(PROJECT_ID)
+    expect(runner.isPaused(PROJECT_ID)).toBe(true)
+    finishFirstImage()
+
+    // The first image is saved, the second waits for the resume
+    await vi.waitFor(() => expect(project().scenes[0].imageUrl).toBeDefined())
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(providers.images.generateImage).toHaveBeenCalledOnce()
+    expect(project().status).toBe('generating_images')
+
+    runner.resume(PROJECT_ID)
+    await run
+
+    expect(project().status).toBe('completed')
+    expect(providers.images.generateImage).toHaveBeenCalledTimes(2)
+    expect(events.filter((e) => e.type === 'paused').map((e) => e.paused)).toEqual([true, false])
+  })
+
+  it('times captions from the script when transcription fails', async () => {
+    const { runner, providers, project } = setup()
+    vi.mocked(providers.transcription.transcribeAudio).mockRejectedValue(
+      new Error('Whisper API error: 503')
+    )
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await runner.run(PROJECT_ID)
+
+    expect(project().status).toBe('completed')
+    const captions = project().captions ?? []
+    expect(captions.length).toBeGreaterThan(0)
+    expect(captions[0].text).toContain('Volcanoes form')
+  })
+
+  it.each([
+    {
+      step: 'script',
+      status: 'generating_script',
+      fail: (providers: PipelineProviders) => providers.script.generateScript
+    },
+    {
+      step: 'images',
+      status: 'generating_images',
+      fail: (providers: PipelineProviders) => providers.images.generateImage
+    },
+    {
+      step: 'audio',
+      status: 'generating_audio',
+      fail: (providers: PipelineProviders) => providers.speech.generateSpeech
+    },
+    {
+      // Other transcription failures fall back to captions timed from the script
+      step: 'captions',
+      status: 'generating_captions',
+      fail: (providers: PipelineProviders) => providers.transcription.transcribeAudio,
+      error: new MissingApiKeyError('service unavailable')
+    },
+    {
+      step: 'video',
+      status: 'composing_video',
+      fail: (providers: PipelineProviders) => providers.composer.composeVideo
+    }
+  ])('marks the project as failed when the $step step throws', async ({ status, fail, error }) => {
+    const { runner, providers, project, events } = setup()
+    vi.mocked(fail(providers)).mockRejectedValue(error ?? new Error('service unavailable'))
+    // The runner logs the failure it reports
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await runner.run(PROJECT_ID)
+
+    expect(project().status).toBe('error')
+    const statuses = events.filter((e) => e.type === 'status').map((e) => e.status)
+    expect(statuses.at(-2)).toBe(status)
+    const failure = events.find((e) => e.type === 'error')
+    expect(failure?.type === 'error' && failure.error.message).toBe('service unavailable')
+    expect(events.some((e) => e.type === 'complete')).toBe(false)
+    expect(runner.isRunning(PROJECT_ID)).toBe(false)
+    if (status !== 'composing_video') {
+      expect(providers.composer.composeVideo).not.toHaveBeenCalled()
+    }
+  })
+})
@@ -0,0 +1,611 @@
+/**
+ * PipelineRunner - Script → Images → Audio → Captions → Video for one project
+ *
+ * Each step reads the project, skips itself when its output is already saved
+ * and writes its output through the project store, so a run can be repeated
+ * to pick up where an earlier one stopped. Providers and the store are
+ * injected, which keeps the runner free of React and lets it run against
+ * fakes; progress is reported as events rather than written to the UI.
+ *
+ * A running project can be paused, resumed or cancelled. Cancelling keeps the
+ * finished steps and leaves the project 'cancelled', so it can be resumed.
+ */
+import { useProjectStore } from '../stores/ProjectStore'
+import { geminiService, type GeminiService } from './GeminiService'
+import { cloudflareService, type CloudflareService } from './CloudflareService'
+import { ttsService, TTSChunkError, type FailedChunk, type TTSService } from './TTSService'
+import { videoComposer, type VideoComposer } from './VideoComposer'
+import { projectAssetService, type ProjectAssetService } from './ProjectAssetService'
+import { audioService, type AudioService } from './AudioService'
+import { MissingApiKeyError } from './ApiKeyService'
+import { PipelineControl } from './PipelineControl'
+import type {
+  Caption,
+  GenerationProgress,
+  Project,
+  ProjectStatus,
+  Scene,
+  WordTiming
+} from '../types'
+
+// A breath of silence between scenes in the joined voiceover, in seconds
+const SCENE_GAP_SECONDS = 0.25
+
+export type PipelineStepId = 'script' | 'images' | 'audio' | 'captions' | 'video'
+
+export interface PipelineProviders {
+  script: Pick<GeminiService, 'generateScript' | 'parseScriptToScenes'>
+  images: Pick<CloudflareService, 'generateImage'>
+  speech: Pick<TTSService, 'generateSpeech' | 'generateDialogue'>
+  audio: Pick<AudioService, 'getDuration' | 'concatenate'>
+  transcription: Pick<CloudflareService, 'transcribeAudio'>
+  composer: Pick<VideoComposer, 'composeVideo'>
+  assets: Pick<ProjectAssetService, 'loadBlob'>
+  settings: Pick<typeof window.api, 'getGenerationSettings'>
+}
+
+type ProjectStoreState = ReturnType<typeof useProjectStore.getState>
+
+/** The store actions a run persists its outputs with */
+export type PipelineStore = Pick<
+  ProjectStoreState,
+  | 'projects'
+  | 'updateProject'
+  | 'setScenes'
+  | 'updateScene'
+  | 'setSceneImage'
+  | 'setSceneAudio'
+  | 'setAudio'
+  | 'setCaptions'
+  | 'setVideo'
+  | 'setProjectStatus'
+>
+
+export type PipelineEvent =
+  | { type: 'status'; projectId: string; status: ProjectStatus }
+  | { type: 'progress'; projectId: string; progress: GenerationProgress }
+  | { type: 'paused'; projectId: string; paused: boolean }
+  | { type: 'complete'; projectId: string }
+  | { type: 'cancelled'; projectId: string }
+  | { type: 'error'; projectId: string; error: Error }
+
+export type PipelineListener = (event: PipelineEvent) => void
+
+interface StepContext {
+  report: (progress: GenerationProgress) => void
+  control: PipelineControl
+}
+
+interface PipelineStep {
+  id: PipelineStepId
+  status: ProjectStatus
+  isDone: (project: Project) => boolean
+  run: (project: Project, context: StepContext) => Promise<void>
+}
+
+const DEFAULT_PROVIDERS: PipelineProviders = {
+  script: geminiService,
+  images: cloudflareService,
+  speech: ttsService,
+  audio: audioService,
+  transcription: cloudflareService,
+  composer: videoComposer,
+  assets: projectAssetService,
+  // Looked up per call, so the runner can be imported where there is no preload bridge
+  settings: { getGenerationSettings: () => window.api.getGenerationSettings() }
+}
+
+export class PipelineRunner {
+  private listeners = new Set<PipelineListener>()
+  private controls = new Map<string, PipelineControl>()
+  private steps: PipelineStep[]
+
+  constructor(
+    private providers: PipelineProviders = DEFAULT_PROVIDERS,
+    private getStore: () => PipelineStore = useProjectStore.getState
+  ) {
+    this.steps = [
+      {
+        id: 'script',
+        status: 'generating_script',
+        isDone: (project) => !!project.script && project.scenes.length > 0,
+        run: (project, context) => this.generateScript(project, context)
+      },
+      {
+        id: 'images',
+        status: 'generating_images',
+        isDone: (project) => project.scenes.every((scene) => scene.imageUrl),
+        run: (project, context) => this.generateImages(project, context)
+      },
+      {
+        id: 'audio',
+        status: 'generating_audio',
+        isDone: (project) => !!project.audioUrl,
+        run: (project, context) => this.generateAudio(project, context)
+      },
+      {
+        id: 'captions',
+        status: 'generating_captions',
+        isDone: (project) => !!project.captions?.length,
+        run: (project, context) => this.generateCaptions(project, context)
+      },
+      {
+        id: 'video',
+        status: 'composing_video',
+        isDone: (project) => !!project.videoUrl,
+        run: (project, context) => this.composeVideo(project, context)
+      }
+    ]
+  }
+
+  /**
+   * Listen to every run; returns the unsubscribe function
+   */
+  subscribe(listener: PipelineListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  isRunning(projectId: string): boolean {
+    return this.controls.has(projectId)
+  }
+
+  isPaused(projectId: string): boolean {
+    return !!this.controls.get(projectId)?.paused
+  }
+
+  pause(projectId: string): void {
+    this.controls.get(projectId)?.pause()
+  }
+
+  resume(projectId: string): void {
+    this.controls.get(projectId)?.resume()
+  }
+
+  cancel(projectId: string): void {
+    this.controls.get(projectId)?.cancel()
+  }
+
+  /**
+   * Run every step that has no saved output yet. Failures are reported as an
+   * 'error' event and mark the project, rather than being thrown; a cancelled
+   * run ends with a 'cancelled' event instead.
+   */
+  async run(projectId: string): Promise<void> {
+    if (this.controls.has(projectId)) return
+    const control = new PipelineControl()
+    this.controls.set(projectId, control)
+
+    const report = (progress: GenerationProgress): void =>
+      this.emit({ type: 'progress', projectId, progress })
+    const unsubscribePause = control.onPauseChange((paused) => {
+      if (!control.signal.aborted) this.emit({ type: 'paused', projectId, paused })
+    })
+
+    let currentStep: PipelineStep | null = null
+    try {
+      for (const step of this.steps) {
+        await control.checkpoint()
+        const project = this.getProject(projectId)
+        if (step.isDone(project)) continue
+
+        currentStep = step
+        this.setStatus(projectId, step.status)
+        await step.run(project, { report, control })
+      }
+
+      this.setStatus(projectId, 'completed')
+      report({ step: 'complete', current: 1, total: 1, message: 'Video complete!' })
+      this.emit({ type: 'complete', projectId })
+    } catch (error) {
+      if (control.signal.aborted) {
+        // Same shape as an interrupted run, so it resumes or redoes the step the same way
+        this.getStore().updateProject(projectId, {
+          status: 'cancelled',
+          interruptedStatus: currentStep?.status
+        })
+        this.emit({ type: 'status', projectId, status: 'cancelled' })
+        this.emit({ type: 'cancelled', projectId })
+        return
+      }
+
+      console.error('Pipeline error:', error)
+      this.setStatus(projectId, 'error')
+      report({ step: 'error', current: 0, total: 1, message: `Error: ${error}` })
+      this.emit({ type: 'error', projectId, error: error as Error })
+    } finally {
+      unsubscribePause()
+      this.controls.delete(projectId)
+    }
+  }
+
+  private emit(event: PipelineEvent): void {
+    this.listeners.forEach((listener) => listener(event))
+  }
+
+  private getProject(projectId: string): Project {
+    const project = this.getStore().projects.find((p) => p.id === projectId)
+    if (!project) throw new Error('Project not found')
+    return project
+  }
+
+  private setStatus(projectId: string, status: ProjectStatus): void {
+    this.getStore().setProjectStatus(projectId, status)
+    this.emit({ type: 'status', projectId, status })
+  }
+
+  private async generateScript(project: Project, { report, control }: StepContext): Promise<void> {
+    report({ step: 'script', current: 0, total: 1, message: 'Generating script...' })
+
+    const script = await this.providers.script.generateScript(
+      project.topic,
+      project.targetDuration,
+      undefined,
+      project.sceneCount,
+      control.signal,
+      project.speakers
+    )
+    const scenes = this.providers.script.parseScriptToScenes(
+      script,
+      project.sceneCount,
+      project.speakers
+    )
+
+    const store = this.getStore()
+    store.updateProject(project.id, { script })
+    store.setScenes(project.id, scenes)
+
+    report({ step: 'script', current: 1, total: 1, message: `Created ${scenes.length} scenes` })
+  }
+
+  private async generateImages(project: Project, { report, control }: StepContext): Promise<void> {
+    const { scenes } = project
+    const total = scenes.length
+    const pending = scenes.filter((scene) => !scene.imageUrl)
+    const { imageConcurrency } = await this.providers.settings.getGenerationSettings()
+    let finished = total - pending.length
+
+    await runPool(pending, imageConcurrency, async (scene) => {
+      await control.checkpoint()
+      const sceneNumber = scenes.indexOf(scene) + 1
+      report({
+        step: 'images',
+        current: finished,
+        total,
+        message: `Generating image ${sceneNumber}/${total}`
+      })
+
+      const imageBlob = await this.providers.images.generateImage(
+        scene.imagePrompt,
+        project.aspectRatio,
+        control.signal,
+        (seconds) =>
+          report({
+            step: 'images',
+            current: finished,
+            total,
+            message: `Rate limited, retrying image ${sceneNumber} in ${seconds}s`
+          })
+      )
+      await this.getStore().setSceneImage(project.id, scene.id, imageBlob)
+
+      finished++
+      report({
+        step: 'images',
+        current: finished,
+        total,
+        message: `Finished image ${sceneNumber} (${finished}/${total})`
+      })
+    })
+  }
+
+  /**
+   * Voice each scene separately and measure the clip, so every scene lasts
+   * exactly as long as its narration; the clips are then joined into the
+   * voiceover. Dialogue scenes are voiced line by line in each speaker's
+   * voice. Scenes voiced by an earlier run are kept
+   */
+  private async generateAudio(project: Project, { report, control }: StepContext): Promise<void> {
+    const { scenes, speakers = [] } = project
+    const failedChunks: FailedChunk[] = []
+
+    for (let i = 0; i < scenes.length; i++) {
+      const scene = scenes[i]
+      if (scene.audioUrl) continue
+
+      await control.checkpoint()
+      report({
+        step: 'audio',
+        current: i + 1,
+        total: scenes.length,
+        message: `Generating voiceover ${i + 1}/${scenes.length}...`
+      })
+
+      try {
+        if (scene.lines?.length && speakers.length > 1) {
+          const dialogue = await this.providers.speech.generateDialogue(
+            scene.lines,
+            speakers,
+            project.voiceSettings,
+            control
+          )
+          if (!dialogue) throw new Error(`Failed to generate audio for scene ${i + 1}`)
+
+          // Where each line starts is what captions are split by speaker with
+          const store = this.getStore()
+          store.updateScene(project.id, scene.id, {
+            lines: scene.lines.map((line, l) => ({ ...line, start: dialogue.clipStarts[l] }))
+          })
+          await store.setSceneAudio(project.id, scene.id, dialogue.blob, dialogue.duration)
+          continue
+        }
+
+        const clip = await this.providers.speech.generateSpeech(
+          scene.text,
+          project.voiceSettings,
+          undefined,
+          control
+        )
+        if (!clip) throw new Error(`Failed to generate audio for scene ${i + 1}`)
+
+        const duration = await this.providers.audio.getDuration(clip)
+        await this.getStore().setSceneAudio(project.id, scene.id, clip, duration)
+      } catch (error) {
+        // Keep voicing the other scenes so one retry covers every failure
+        if (!(error instanceof TTSChunkError)) throw error
+        failedChunks.push(...error.failedChunks.map((chunk) => ({ ...chunk, sceneIndex: i })))
+      }
+    }
+    if (failedChunks.length > 0) throw new TTSChunkError(failedChunks)
+
+    report({ step: 'audio', current: 1, total: 1, message: 'Joining the voiceover...' })
+    const voiced = this.getProject(project.id).scenes
+    const clips = await Promise.all(
+      voiced.map((scene) => this.providers.assets.loadBlob(scene.audioUrl!))
+    )
+    const { blob, duration, clipStarts } = await this.providers.audio.concatenate(clips, {
+      gapSeconds: SCENE_GAP_SECONDS
+    })
+
+    // Each scene runs until the next one's narration starts, so the pauses
+    // are shared out and the scenes add up to exactly the voiceover
+    const store = this.getStore()
+    store.setScenes(
+      project.id,
+      voiced.map((scene, i) => ({
+        ...scene,
+        duration: (clipStarts[i + 1] ?? duration) - clipStarts[i]
+      }))
+    )
+    await store.setAudio(project.id, blob)
+    report({
+      step: 'audio',
+      current: 1,
+      total: 1,
+      message: `Voiceover is ${Math.round(duration)}s long`
+    })
+  }
+
+  private async generateCaptions(
+    project: Project,
+    { report, control }: StepContext
+  ): Promise<void> {
+    report({ step: 'captions', current: 0, total: 1, message: 'Transcribing audio...' })
+
+    // Word-level timings from the voiceover where transcription works
+    let captions: Caption[] = []
+    if (project.audioUrl) {
+      const audioBlob = await this.providers.assets.loadBlob(project.audioUrl)
+      try {
+        const transcription = await this.providers.transcription.transcribeAudio(
+          audioBlob,
+          control.signal
+        )
+        if (transcription.words.length > 0) {
+          captions = createCaptionsFromTranscription(transcription.words, project.scenes)
+        }
+      } catch (error) {
+        // Cancelling or a missing key stops the step; other failures fall back to the script
+        if (control.signal.aborted || error instanceof MissingApiKeyError) throw error
+        console.error('Transcription failed, timing captions from the script:', error)
+      }
+    }
+
+    if (captions.length === 0) {
+      // Dialogue lines are spread over their own stretch of the scene
+      captions = createCaptionsFromScenes(project.scenes.flatMap(getSceneLines))
+    }
+    captions = splitCaptionsBySpeaker(captions, project.scenes)
+
+    this.getStore().setCaptions(project.id, captions)
+    report({
+      step: 'captions',
+      current: 1,
+      total: 1,
+      message: `Created ${captions.length} captions`
+    })
+  }
+
+  private async composeVideo(project: Project, { report, control }: StepContext): Promise<void> {
+    if (!project.audioUrl || !project.captions) {
+      throw new Error('Audio and captions are needed to compose the video')
+    }
+
+    const videoBlob = await this.providers.composer.composeVideo(
+      project.scenes,
+      await this.providers.assets.loadBlob(project.audioUrl),
+      project.captions,
+      project.captionSettings,
+      project.aspectRatio,
+      project.speakers ?? [],
+      (message) => report({ step: 'video', current: 0, total: 1, message }),
+      control
+    )
+    if (!videoBlob) throw new Error('Failed to compose video')
+
+    await this.getStore().setVideo(project.id, videoBlob)
+  }
+}
+
+/**
+ * Run the worker over every item, at most `limit` at a time. Rejects with the
+ * first failure, after which no new items are started
+ */
+async function runPool<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  let failed = false
+
+  const lane = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const item = items[next++]
+      try {
+        await worker(item)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  // Every lane settles before a failure is passed on, so no scene is still
+  // being saved once the step has stopped
+  const results = await Promise.allSettled(
+    Array.from({ length: Math.min(limit, items.length) }, lane)
+  )
+  const failure = results.find((result) => result.status === 'rejected')
+  if (failure) throw failure.reason
+}
+
+/**
+ * Create captions from Whisper transcription with word timings
+ */
+export function createCaptionsFromTranscription(
+  words: WordTiming[],
+  scenes: { duration: number }[]
+): Caption[] {
+  const captions: Caption[] = []
+  let wordIndex = 0
+  let sceneStartTime = 0
+
+  for (let i = 0; i < scenes.length; i++) {
+    const scene = scenes[i]
+    const sceneEndTime = sceneStartTime + scene.duration
+
+    // Collect words that fall within this scene's timeframe
+    const sceneWords: WordTiming[] = []
+    let captionText = ''
+
+    while (wordIndex < words.length && words[wordIndex].start < sceneEndTime) {
+      sceneWords.push(words[wordIndex])
+      captionText += (captionText ? ' ' : '') + words[wordIndex].word
+      wordIndex++
+    }
+
+    if (sceneWords.length > 0) {
+      captions.push({
+        id: `caption-${i}`,
+        startTime: sceneStartTime,
+        endTime: sceneEndTime,
+        text: captionText,
+        words: sceneWords
+      })
+    }
+
+    sceneStartTime = sceneEndTime
+  }
+
+  return captions
+}
+
+/**
+ * Fallback when there is no transcription: spread each scene's words evenly over it
+ */
+export function createCaptionsFromScenes(scenes: { text: string; duration: number }[]): Caption[] {
+  let currentTime = 0
+  return scenes.map((scene, i) => {
+    const words = scene.text.split(/\s+/).filter(Boolean)
+    const wordDuration = scene.duration / words.length
+    const wordTimings: WordTiming[] = words.map((word, wi) => ({
+      word,
+      start: currentTime + wi * wordDuration,
+      end: currentTime + (wi + 1) * wordDuration
+    }))
+
+    const caption: Caption = {
+      id: `caption-${i}`,
+      startTime: currentTime,
+      endTime: currentTime + scene.duration,
+      text: scene.text,
+      words: wordTimings
+    }
+    currentTime += scene.duration
+    return caption
+  })
+}
+
+/**
+ * A dialogue scene's lines as consecutive stretches of it, from where each
+ * line's audio starts; other scenes are one stretch
+ */
+function getSceneLines(scene: Scene): { text: string; duration: number }[] {
+  const { lines } = scene
+  if (!lines?.length || lines.some((line) => line.start === undefined)) return [scene]
+
+  return lines.map((line, i) => ({
+    text: line.text,
+    duration: (lines[i + 1]?.start ?? scene.duration) - line.start!
+  }))
+}
+
+/**
+ * Split the captions of dialogue scenes where the speaker changes, so each
+ * caption has one speaker to label it with
+ */
+export function splitCaptionsBySpeaker(captions: Caption[], scenes: Scene[]): Caption[] {
+  const sceneStarts: number[] = []
+  scenes.reduce((start, scene) => {
+    sceneStarts.push(start)
+    return start + scene.duration
+  }, 0)
+
+  return captions.flatMap((caption) => {
+    const sceneIndex = sceneStarts.findLastIndex((start) => start <= caption.startTime + 0.001)
+    const lines = scenes[sceneIndex]?.lines
+    if (!lines?.length || lines.some((line) => line.start === undefined)) return [caption]
+
+    const lineStarts = lines.map((line) => sceneStarts[sceneIndex] + line.start!)
+    const lineAt = (time: number): number =>
+      Math.max(
+        0,
+        lineStarts.findLastIndex((start) => start <= time + 0.001)
+      )
+
+    // Without word timings the whole caption goes to the line it starts in
+    if (!caption.words?.length) {
+      return [{ ...caption, speakerId: lines[lineAt(caption.startTime)].speakerId }]
+    }
+
+    const groups = new Map<number, WordTiming[]>()
+    for (const word of caption.words) {
+      const line = lineAt(word.start)
+      groups.set(line, [...(groups.get(line) ?? []), word])
+    }
+
+    return [...groups].map(([line, words], i, all) => ({
+      id: `${caption.id}-${line}`,
+      startTime: i === 0 ? caption.startTime : Math.max(caption.startTime, lineStarts[line]),
+      endTime: i === all.length - 1 ? caption.endTime : lineStarts[all[i + 1][0]],
+      text: words.map((word) => word.word).join(' '),
+      words,
+      speakerId: lines[line].speakerId
+    }))
+  })
+}
+
+export const pipelineRunner = new PipelineRunner()
@@ -0,0 +1,56 @@
+/**
+ * ProjectAssetService - Stores generated media in the project's folder on disk
+ *
+ * Assets are written by the main process and come back as autovid-asset://
+ * URLs, which work directly in <img>/<audio>/<video> and with fetch.
+ */
+
+export const ASSET_NAMES = {
+  audio: 'voiceover.wav',
+  captions: 'captions.json',
+  video: 'render.webm',
+  sceneImage: (sceneId: string) => `image-${sceneId}.png`,
+  sceneAudio: (sceneId: string) => `voice-${sceneId}.wav`
+}
+
+export class ProjectAssetService {
+  /**
+   * Write a blob to the project folder and return its asset URL
+   */
+  async saveBlob(projectId: string, name: string, blob: Blob): Promise<string> {
+    const data = new Uint8Array(await blob.arrayBuffer())
+    return window.api.writeProjectAsset(projectId, name, data)
+  }
+
+  async saveJson(projectId: string, name: string, value: unknown): Promise<string> {
+    return window.api.writeProjectAsset(projectId, name, JSON.stringify(value, null, 2))
+  }
+
+  /**
+   * Read an asset back, for APIs that need the bytes rather than a URL
+   */
+  async loadBlob(url: string): Promise<Blob> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Asset not found: ${url}`)
+    }
+    return response.blob()
+  }
+
+  /**
+   * File name of an asset URL inside its project folder
+   */
+  getAssetName(url: string): string {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '')
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    await window.api.deleteProjectAssets(projectId)
+  }
+
+  async exportAsset(projectId: string, url: string, defaultName: string): Promise<string | null> {
+    return window.api.exportProjectAsset(projectId, this.getAssetName(url), defaultName)
+  }
+}
+
+export const projectAssetService = new ProjectAssetService()
@@ -0,0 +1,45 @@
+/**
+ * ProjectBundleService - Export and import projects as portable .autovid bundles
+ *
+ * The main process packs and unpacks the archive; imported projects are
+ * migrated from the schema they were exported under before joining the store.
+ */
+import { PROJECTS_SCHEMA_VERSION, runMigrations } from '../stores/projectMigrations'
+import { RUNNING_STATUSES } from '../stores/ProjectStore'
+import type { Project } from '../types'
+
+export class ProjectBundleService {
+  async exportProject(project: Project): Promise<string | null> {
+    return window.api.exportProjectBundle(
+      project as unknown as Record<string, unknown>,
+      PROJECTS_SCHEMA_VERSION
+    )
+  }
+
+  /**
+   * Import a bundle from a path, or ask for one when no path is given
+   */
+  async importProject(filePath?: string): Promise<Project | null> {
+    // Bundles from a newer schema are turned away before their assets are written
+    const manifest = await window.api.importProjectBundle(PROJECTS_SCHEMA_VERSION, filePath)
+    if (!manifest) return null
+
+    let project: Project
+    try {
+      const { projects } = runMigrations({ projects: [manifest.project] }, manifest.schemaVersion)
+      project = projects[0] as unknown as Project
+    } catch (error) {
+      // The assets were written under the new id, which nothing will point at now
+      await window.api.deleteProjectAssets(manifest.project.id as string)
+      throw error
+    }
+
+    // Exported mid-run, but nothing is running it here
+    if (RUNNING_STATUSES.includes(project.status)) {
+      project = { ...project, status: 'interrupted', interruptedStatus: project.status }
+    }
+    return { ...project, updatedAt: new Date() }
+  }
+}
+
+export const projectBundleService = new ProjectBundleService()
@@ -0,0 +1,114 @@
+/**
+ * RenderQueue - Runs queued projects through the pipeline a few at a time
+ *
+ * Up to MAX_CONCURRENT_JOBS projects generate side by side, which overlaps
+ * their script, image, voiceover and caption requests. VideoComposer records
+ * one video at a time, so composition stays serialized whatever the limit.
+ * The queue lives in RenderQueueStore for the sidebar and editor to show.
+ */
+import { useProjectStore } from '../stores/ProjectStore'
+import { useRenderQueueStore } from '../stores/RenderQueueStore'
+import { pipelineRunner, type PipelineEvent, type PipelineRunner } from './PipelineRunner'
+import { TTSChunkError } from './TTSService'
+
+export const MAX_CONCURRENT_JOBS = 2
+
+export class RenderQueue {
+  // Runs in progress, settling once the pipeline has stopped writing
+  private runs = new Map<string, Promise<void>>()
+
+  constructor(
+    private runner: PipelineRunner = pipelineRunner,
+    private concurrency: number = MAX_CONCURRENT_JOBS
+  ) {
+    runner.subscribe((event) => this.handleEvent(event))
+  }
+
+  has(projectId: string): boolean {
+    return useRenderQueueStore.getState().jobs.some((job) => job.projectId === projectId)
+  }
+
+  /**
+   * Add a project to the back of the queue; finished steps are kept, so a
+   * failed, cancelled or interrupted project continues where it stopped
+   */
+  enqueue(projectId: string): void {
+    if (this.has(projectId)) return
+
+    const { projects, resumeProject } = useProjectStore.getState()
+    const project = projects.find((p) => p.id === projectId)
+    if (!project || project.status === 'completed') return
+
+    if (project.status === 'interrupted' || project.status === 'cancelled') {
+      resumeProject(projectId)
+    }
+    const { addJob, setError } = useRenderQueueStore.getState()
+    setError(projectId, null)
+    addJob(projectId)
+    this.startNext()
+  }
+
+  /**
+   * Take a waiting project out of the queue, or cancel it if it is running.
+   * Resolves once a cancelled run has stopped, so its assets can be deleted
+   */
+  async remove(projectId: string): Promise<void> {
+    const run = this.runs.get(projectId)
+    if (run) {
+      this.runner.cancel(projectId)
+      await run
+    } else {
+      useRenderQueueStore.getState().removeJob(projectId)
+    }
+  }
+
+  pause(projectId: string): void {
+    this.runner.pause(projectId)
+  }
+
+  resume(projectId: string): void {
+    this.runner.resume(projectId)
+  }
+
+  private startNext(): void {
+    const { jobs } = useRenderQueueStore.getState()
+    let running = jobs.filter((job) => job.state === 'running').length
+
+    for (const job of jobs) {
+      if (running >= this.concurrency) break
+      if (job.state !== 'queued') continue
+      running++
+      this.start(job.projectId)
+    }
+  }
+
+  private async start(projectId: string): Promise<void> {
+    const { updateJob, removeJob } = useRenderQueueStore.getState()
+    updateJob(projectId, { state: 'running' })
+
+    const run = this.runner.run(projectId)
+    this.runs.set(projectId, run)
+    try {
+      await run
+    } finally {
+      this.runs.delete(projectId)
+      removeJob(projectId)
+      this.startNext()
+    }
+  }
+
+  private handleEvent(event: PipelineEvent): void {
+    const { updateJob, setError } = useRenderQueueStore.getState()
+    if (event.type === 'progress') updateJob(event.projectId, { progress: event.progress })
+    if (event.type === 'paused') updateJob(event.projectId, { paused: event.paused })
+    if (event.type === 'error') {
+      const { error } = event
+      setError(event.projectId, {
+        message: error instanceof TTSChunkError ? error.message : String(error),
+        failedChunks: error instanceof TTSChunkError ? error.failedChunks : undefined
+      })
+    }
+  }
+}
+
+export const renderQueue = new RenderQueue()
@@ -2,17 +2,74 @@
  * TTSService - Text-to-Speech using TTSFM API (OpenAI-compatible)
  * Based on TTSFM docs: https://github.com/dbcc/ttsfm
  */
+import { httpGateway } from './HttpGateway'
+import { parseRetryAfter, sleep } from './retry'
+import { audioService, type JoinedAudio } from './AudioService'
+import type { PipelineControl } from './PipelineControl'
+import {
+  DEFAULT_VOICE_SETTINGS,
+  type DialogueLine,
+  type Speaker,
+  type VoiceSettings
+} from '../types'
 
-const CORS_PROXY = 'https://corsproxy.io/?'
+// Attempts per chunk before it counts as failed
+const MAX_CHUNK_ATTEMPTS = 3
+// Doubles after each failed attempt, unless the response says how long to wait
+const CHUNK_RETRY_DELAY_MS = 1000
+// Silence between one speaker's line and the next, in seconds
+const LINE_GAP_SECONDS = 0.15
+
+// Short enough to come back quickly, long enough to hear the pace
+const PREVIEW_TEXT =
+  'Here is how your video will sound. Every scene is narrated in this voice, at this speed.'
 
 export interface TTSVoice {
   id: string
   name: string
 }
 
+export interface FailedChunk {
+  // 0-based position in the text it was split from
+  index: number
+  // 0-based scene the text belongs to, when speech is generated per scene
+  sceneIndex?: number
+  // 0-based dialogue line within the scene, for dialogue scripts
+  lineIndex?: number
+  text: string
+  reason: string
+}
+
+/**
+ * Some chunks still failed after every retry. The chunks that worked are
+ * kept, so generating the same narration again only requests these
+ */
+export class TTSChunkError extends Error {
+  constructor(public failedChunks: FailedChunk[]) {
+    super(
+      `${failedChunks.length} voiceover chunk${failedChunks.length === 1 ? '' : 's'} failed: ` +
+        failedChunks.map((chunk) => `${describeChunk(chunk)} (${chunk.reason})`).join(', ')
+    )
+    this.name = 'TTSChunkError'
+  }
+}
+
+/**
+ * Where a failed chunk is, e.g. "scene 2 line 3 #1"
+ */
+export function describeChunk(chunk: FailedChunk): string {
+  const scene = chunk.sceneIndex === undefined ? '' : `scene ${chunk.sceneIndex + 1} `
+  const line = chunk.lineIndex === undefined ? '' : `line ${chunk.lineIndex + 1} `
+  return `${scene}${line}#${chunk.index + 1}`
+}
+
 export class TTSService {
   private baseUrl: string
   private maxChunkLength = 4000 // TTSFM has 4096 limit
+  // Audio for chunks of narration that has not fully generated yet, by voice settings and text
+  private chunkCache = new Map<string, ArrayBuffer>()
+  // Samples already played, by voice settings
+  private previews = new Map<string, Blob>()
 
   constructor() {
     // TTSFM public API - using OpenAI-compatible endpoint
@@ -62,87 +119,152 @@ export class TTSService {
   }
 
   /**
-   * Generate speech from text using TTSFM OpenAI-compatible endpoint
+   * Generate speech from text using TTSFM OpenAI-compatible endpoint. Each
+   * chunk is retried with backoff; if any still fail, a TTSChunkError lists
+   * them rather than returning narration with gaps
    */
   async generateSpeech(
     text: string,
-    voice: string = 'nova',
-    onProgress?: (current: number, total: number) => void
+    settings: VoiceSettings = DEFAULT_VOICE_SETTINGS,
+    onProgress?: (current: number, total: number) => void,
+    control?: PipelineControl
   ): Promise<Blob | null> {
     try {
       const chunks = this.splitText(text)
       const audioChunks: ArrayBuffer[] = []
+      const failedChunks: FailedChunk[] = []
 
       for (let i = 0; i < chunks.length; i++) {
+        // Pausing holds before the next chunk
+        await control?.checkpoint()
         onProgress?.(i + 1, chunks.length)
 
-        // Use OpenAI-compatible endpoint with CORS proxy
-        const targetUrl = `${this.baseUrl}/v1/audio/speech`
-        const url = `${CORS_PROXY}${encodeURIComponent(targetUrl)}`
-
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'tts-1',
-            input: chunks[i],
-            voice: voice,
-            response_format: 'mp3'
-          })
-        })
-
-        if (!response.ok) {
-          const errorText = await response.text()
-          console.error('TTS failed:', response.status, errorText)
+        const cacheKey = this.cacheKey(settings, chunks[i])
+        const cached = this.chunkCache.get(cacheKey)
+        if (cached) {
+          audioChunks.push(cached)
           continue
         }
 
-        const arrayBuffer = await response.arrayBuffer()
-        
-        if (arrayBuffer.byteLength > 0) {
-          audioChunks.push(arrayBuffer)
+        try {
+          const audio = await this.requestChunk(chunks[i], settings, control?.signal)
+          this.chunkCache.set(cacheKey, audio)
+          audioChunks.push(audio)
+        } catch (error) {
+          if (control?.signal.aborted) throw error
+          failedChunks.push({ index: i, text: chunks[i], reason: (error as Error).message })
         }
       }
 
-      if (audioChunks.length === 0) {
-        console.error('No audio chunks generated')
-        return null
+      if (failedChunks.length > 0) {
+        throw new TTSChunkError(failedChunks)
       }
+      chunks.forEach((chunk) => this.chunkCache.delete(this.cacheKey(settings, chunk)))
 
-      // Combine audio chunks
-      const totalLength = audioChunks.reduce((acc, chunk) => acc + chunk.byteLength, 0)
-      const combined = new Uint8Array(totalLength)
-      let offset = 0
-
-      for (const chunk of audioChunks) {
-        combined.set(new Uint8Array(chunk), offset)
-        offset += chunk.byteLength
-      }
-
-      return new Blob([combined], { type: 'audio/mpeg' })
+      // Decoded and joined as samples, so the result is one clean WAV
+      const joined = await audioService.concatenate(audioChunks.map((chunk) => new Blob([chunk])))
+      return joined.blob
     } catch (error) {
+      // Cancelled runs should not be reported as failures
+      if (control?.signal.aborted || error instanceof TTSChunkError) throw error
       console.error('TTS error:', error)
       return null
     }
   }
 
   /**
-   * Generate speech for multiple scenes
+   * Voice each line of a dialogue with its speaker's voice and join them in
+   * order. Failed chunks from every line are reported together
    */
-  async generateSpeechForScenes(
-    scenes: Array<{ text: string }>,
-    voice: string = 'nova',
-    onProgress?: (current: number, total: number, message: string) => void
-  ): Promise<Blob | null> {
-    const allText = scenes.map((s) => s.text).join('\n\n')
+  async generateDialogue(
+    lines: DialogueLine[],
+    speakers: Speaker[],
+    settings: VoiceSettings = DEFAULT_VOICE_SETTINGS,
+    control?: PipelineControl
+  ): Promise<JoinedAudio | null> {
+    const clips: Blob[] = []
+    const failedChunks: FailedChunk[] = []
 
-    onProgress?.(0, 1, 'Preparing audio generation...')
+    for (let i = 0; i < lines.length; i++) {
+      const voice = speakers.find((s) => s.id === lines[i].speakerId)?.voice ?? settings.voice
+      try {
+        const clip = await this.generateSpeech(
+          lines[i].text,
+          { ...settings, voice },
+          undefined,
+          control
+        )
+        if (!clip) return null
+        clips.push(clip)
+      } catch (error) {
+        if (!(error instanceof TTSChunkError)) throw error
+        failedChunks.push(...error.failedChunks.map((chunk) => ({ ...chunk, lineIndex: i })))
+      }
+    }
+    if (failedChunks.length > 0) throw new TTSChunkError(failedChunks)
+
+    return audioService.concatenate(clips, { gapSeconds: LINE_GAP_SECONDS })
+  }
+
+  /**
+   * A short sample of the given voice settings, for choosing them before a run
+   */
+  async generatePreview(settings: VoiceSettings): Promise<Blob> {
+    const key = this.cacheKey(settings, PREVIEW_TEXT)
+    const cached = this.previews.get(key)
+    if (cached) return cached
+
+    const preview = new Blob([await this.requestChunk(PREVIEW_TEXT, settings)])
+    this.previews.set(key, preview)
+    return preview
+  }
 
-    return this.generateSpeech(allText, voice, (current, total) => {
-      onProgress?.(current, total, `Generating audio chunk ${current}/${total}...`)
-    })
+  private cacheKey(settings: VoiceSettings, text: string): string {
+    return `${settings.voice}/${settings.speed}/${settings.format}\n${text}`
+  }
+
+  /**
+   * Request one chunk, retrying failed responses and network errors with backoff
+   */
+  private async requestChunk(
+    text: string,
+    settings: VoiceSettings,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    for (let attempt = 1; ; attempt++) {
+      let retryAfter: number | null = null
+      try {
+        // OpenAI-compatible endpoint, requested from the main process
+        const response = await httpGateway.fetch(`${this.baseUrl}/v1/audio/speech`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            model: 'tts-1',
+            input: text,
+            voice: settings.voice,
+            speed: settings.speed,
+            response_format: settings.format
+          }),
+          signal
+        })
+
+        if (!response.ok) {
+          retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+          const errorText = await response.text()
+          console.error('TTS failed:', response.status, errorText)
+          throw new Error(`HTTP ${response.status}`)
+        }
+
+        const arrayBuffer = await response.arrayBuffer()
+        if (arrayBuffer.byteLength === 0) throw new Error('empty response')
+        return arrayBuffer
+      } catch (error) {
+        if (signal?.aborted || attempt >= MAX_CHUNK_ATTEMPTS) throw error
+        await sleep(retryAfter ?? CHUNK_RETRY_DELAY_MS * 2 ** (attempt - 1), signal)
+      }
+    }
   }
 }
 
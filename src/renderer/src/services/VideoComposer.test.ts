@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { VideoComposer } from './VideoComposer'
+import { PipelineControl } from './PipelineControl'
+import { DEFAULT_CAPTION_SETTINGS } from '../types'
+
+type Record = (...args: unknown[]) => Promise<Blob | null>
+
+/**
+ * A composer whose recordings finish only when the test says so; the real one needs a DOM
+ */
+function createComposer(): { composer: VideoComposer; finish: (index: number) => void } {
+  const composer = new VideoComposer()
+  const finishers: (() => void)[] = []
+  vi.spyOn(composer as unknown as { record: Record }, 'record').mockImplementation(
+    () =>
+      new Promise((resolve) => {
+        finishers.push(() => resolve(new Blob(['video'])))
+      })
+  )
+  return { composer, finish: (index) => finishers[index]() }
+}
+
+function compose(composer: VideoComposer, control?: PipelineControl): Promise<Blob | null> {
+  return composer.composeVideo(
+    [],
+    new Blob(['voiceover']),
+    [],
+    DEFAULT_CAPTION_SETTINGS,
+    '9:16',
+    [],
+    undefined,
+    control
+  )
+}
+
+describe('VideoComposer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('stops a job waiting for another recording as soon as it is cancelled', async () => {
+    const { composer, finish } = createComposer()
+    const first = compose(composer)
+    const control = new PipelineControl()
+    const waiting = compose(composer, control)
+
+    control.cancel()
+
+    await expect(waiting).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }))
+    finish(0)
+    await expect(first).resolves.toBeInstanceOf(Blob)
+  })
+
+  it('keeps later jobs queued behind a recording when a waiting job is cancelled', async () => {
+    const { composer, finish } = createComposer()
+    const record = vi.mocked((composer as unknown as { record: Record }).record)
+    const first = compose(composer)
+    const control = new PipelineControl()
+    const cancelled = compose(composer, control)
+    const third = compose(composer)
+
+    control.cancel()
+    await expect(cancelled).rejects.toThrow()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    // One canvas: the third job must not start while the first is still recording
+    expect(record).toHaveBeenCalledOnce()
+
+    finish(0)
+    await first
+    await vi.waitFor(() => expect(record).toHaveBeenCalledTimes(2))
+    finish(1)
+    await expect(third).resolves.toBeInstanceOf(Blob)
+  })
+})
@@ -2,8 +2,25 @@
  * VideoComposer - OOP-level video creation with SMART captions
  * Shows max 2 lines at a time with word-by-word animation
  */
-import type { Scene, Caption, CaptionSettings, AspectRatio } from '../types'
+import type { Scene, Caption, CaptionSettings, AspectRatio, Speaker } from '../types'
 import { ASPECT_RATIO_DIMS } from '../types'
+import type { PipelineControl } from './PipelineControl'
+
+/**
+ * Wait for a promise, rejecting with the abort reason as soon as the signal fires
+ */
+function waitUnlessAborted(promise: Promise<void>, signal?: AbortSignal): Promise<void> {
+  if (!signal) return promise
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = (): void => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
 
 export class VideoComposer {
   private canvas: HTMLCanvasElement | null = null
@@ -11,6 +28,8 @@ export class VideoComposer {
   private aspectRatio: AspectRatio = '9:16'
   private width: number = 1080
   private height: number = 1920
+  private composing: Promise<void> = Promise.resolve()
+  private pending = 0
 
   async load(aspectRatio: AspectRatio = '9:16'): Promise<void> {
     this.aspectRatio = aspectRatio
@@ -24,13 +43,57 @@ export class VideoComposer {
     this.ctx = this.canvas.getContext('2d')
   }
 
+  /**
+   * Record the video in real time. There is one canvas, so calls made while a
+   * video is recording wait their turn
+   */
   async composeVideo(
     scenes: Scene[],
     audioBlob: Blob,
     captions: Caption[],
     captionSettings: CaptionSettings,
     aspectRatio: AspectRatio,
-    onProgress?: (message: string) => void
+    speakers: Speaker[],
+    onProgress?: (message: string) => void,
+    control?: PipelineControl
+  ): Promise<Blob | null> {
+    const previous = this.composing
+    let release = (): void => {}
+    const done = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    // Later calls also wait for every earlier one, even if this one is cancelled while waiting
+    this.composing = previous.then(() => done)
+
+    try {
+      if (this.pending++ > 0) onProgress?.('Waiting for another video to finish recording...')
+      // A cancelled job stops waiting at once instead of after the other recording
+      await waitUnlessAborted(previous, control?.signal)
+      return await this.record(
+        scenes,
+        audioBlob,
+        captions,
+        captionSettings,
+        aspectRatio,
+        speakers,
+        onProgress,
+        control
+      )
+    } finally {
+      this.pending--
+      release()
+    }
+  }
+
+  private async record(
+    scenes: Scene[],
+    audioBlob: Blob,
+    captions: Caption[],
+    captionSettings: CaptionSettings,
+    aspectRatio: AspectRatio,
+    speakers: Speaker[],
+    onProgress?: (message: string) => void,
+    control?: PipelineControl
   ): Promise<Blob | null> {
     await this.load(aspectRatio)
 
@@ -44,6 +107,7 @@ export class VideoComposer {
       // Load all images
       const images: HTMLImageElement[] = []
       for (let i = 0; i < scenes.length; i++) {
+        await control?.checkpoint()
         const scene = scenes[i]
         if (scene.imageUrl) {
           onProgress?.(`Loading image ${i + 1}/${scenes.length}...`)
@@ -83,6 +147,7 @@ export class VideoComposer {
         currentTime += scenes[i].duration
       }
 
+      await control?.checkpoint()
       onProgress?.('Setting up recording...')
 
       const canvasStream = this.canvas.captureStream(30)
@@ -116,8 +181,35 @@ export class VideoComposer {
       const startTime = Date.now()
       let lastProgress = 0
 
+      // Pausing holds the recorder and the voiceover together, and the paused
+      // time is left out of the timeline so scenes and captions stay in sync
+      let pausedAt = 0
+      let pausedTotal = 0
+      const unsubscribePause = control?.onPauseChange((paused) => {
+        if (control.signal.aborted) return
+        if (paused) {
+          pausedAt = Date.now()
+          audio.pause()
+          mediaRecorder.pause()
+        } else {
+          pausedTotal += Date.now() - pausedAt
+          mediaRecorder.resume()
+          audio.play()
+        }
+      })
+
       const animate = (): void => {
-        const elapsed = (Date.now() - startTime) / 1000
+        if (control?.signal.aborted) {
+          audio.pause()
+          mediaRecorder.stop()
+          return
+        }
+        if (control?.paused) {
+          requestAnimationFrame(animate)
+          return
+        }
+
+        const elapsed = (Date.now() - startTime - pausedTotal) / 1000
         const progress = Math.min(elapsed / totalDuration, 1)
 
         const progressPercent = Math.floor(progress * 100)
@@ -130,7 +222,7 @@ export class VideoComposer {
           (s) => elapsed >= s.start && elapsed < s.end
         ) || sceneTimings[sceneTimings.length - 1]
 
-        this.drawFrame(currentScene.image, captions, captionSettings, elapsed)
+        this.drawFrame(currentScene.image, captions, captionSettings, speakers, elapsed)
 
         if (elapsed < totalDuration) {
           requestAnimationFrame(animate)
@@ -140,8 +232,16 @@ export class VideoComposer {
         }
       }
 
-      const videoBlob = await new Promise<Blob>((resolve) => {
+      const videoBlob = await new Promise<Blob>((resolve, reject) => {
         mediaRecorder.onstop = () => {
+          unsubscribePause?.()
+          audioContext.close()
+          URL.revokeObjectURL(audio.src)
+
+          if (control?.signal.aborted) {
+            reject(control.signal.reason)
+            return
+          }
           onProgress?.('Finalizing video...')
           const blob = new Blob(chunks, { type: 'video/webm' })
           resolve(blob)
@@ -149,12 +249,11 @@ export class VideoComposer {
         animate()
       })
 
-      audioContext.close()
-      URL.revokeObjectURL(audio.src)
-
       onProgress?.('Video ready!')
       return videoBlob
     } catch (error) {
+      // Cancelled runs should not be reported as failures
+      if (control?.signal.aborted) throw error
       console.error('Video composition error:', error)
       onProgress?.(`Error: ${error}`)
       return null
@@ -164,7 +263,8 @@ export class VideoComposer {
   private drawFrame(
     image: HTMLImageElement,
     captions: Caption[],
-    settings: CaptionSettings,
+    captionSettings: CaptionSettings,
+    speakers: Speaker[],
     currentTime: number
   ): void {
     if (!this.ctx) return
@@ -182,6 +282,17 @@ export class VideoComposer {
     const caption = captions.find((c) => currentTime >= c.startTime && currentTime < c.endTime)
     if (!caption) return
 
+    // In dialogues, who is talking shows as a name tag, the text colour or both
+    const speaker = speakers.find((s) => s.id === caption.speakerId)
+    const labels = speaker ? captionSettings.speakerLabels : 'off'
+    const settings =
+      speaker && (labels === 'color' || labels === 'both')
+        ? { ...captionSettings, textColor: speaker.color }
+        : captionSettings
+    if (speaker && (labels === 'name' || labels === 'both')) {
+      this.drawSpeakerName(ctx, speaker, settings)
+    }
+
     // Draw caption - MAX 2 LINES with smart word selection
     switch (settings.template) {
       case 'karaoke':
@@ -199,6 +310,45 @@ export class VideoComposer {
     }
   }
 
+  /**
+   * Name tag in the speaker's colour, just above where the caption is drawn
+   */
+  private drawSpeakerName(
+    ctx: CanvasRenderingContext2D,
+    speaker: Speaker,
+    settings: CaptionSettings
+  ): void {
+    const fontSize = this.getFontSize('small')
+    const captionSize = this.getFontSize(settings.fontSize)
+    const captionY =
+      settings.template === 'minimal' ? this.height - 80 : this.getYPosition(settings.position)
+    // Clears the two-line caption box, or the minimal caption's single line
+    const y =
+      settings.template === 'minimal'
+        ? captionY - fontSize * 1.5
+        : captionY - captionSize * 1.3 - 20 - fontSize
+
+    ctx.font = `bold ${fontSize}px ${settings.fontFamily}, system-ui`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    const padding = fontSize * 0.5
+    const width = ctx.measureText(speaker.name).width + padding * 2
+
+    ctx.fillStyle = speaker.color
+    ctx.beginPath()
+    ctx.roundRect(
+      this.width / 2 - width / 2,
+      y - fontSize * 0.7,
+      width,
+      fontSize * 1.4,
+      fontSize * 0.4
+    )
+    ctx.fill()
+
+    ctx.fillStyle = '#000000'
+    ctx.fillText(speaker.name, this.width / 2, y)
+  }
+
   private drawImageCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement): void {
     const imgAspect = image.width / image.height
     const canvasAspect = this.width / this.height
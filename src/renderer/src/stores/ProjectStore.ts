@@ -2,40 +2,105 @@
  * Project Store - State management with Zustand
  */
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
-import type { Project, Scene, Caption, GenerationProgress, ProjectStatus, CaptionSettings, AspectRatio } from '../types'
-import { DEFAULT_CAPTION_SETTINGS } from '../types'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import type {
+  Project,
+  Scene,
+  Caption,
+  ProjectStatus,
+  CaptionSettings,
+  AspectRatio,
+  VoiceSettings,
+  Speaker
+} from '../types'
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_VOICE_SETTINGS } from '../types'
+import {
+  PROJECTS_STORE_NAME,
+  PROJECTS_SCHEMA_VERSION,
+  migrateProjects,
+  getBackupKey,
+  getPersistedVersion
+} from './projectMigrations'
+import { useRecoveryStore } from './RecoveryStore'
+import { projectAssetService, ASSET_NAMES } from '../services/ProjectAssetService'
+
+// Statuses only a running pipeline sets, in pipeline order; finding one at
+// startup means the app closed mid-run
+export const RUNNING_STATUSES: ProjectStatus[] = [
+  'generating_script',
+  'generating_images',
+  'generating_audio',
+  'generating_captions',
+  'composing_video'
+]
+
+/**
+ * Clear what the given step and every later step produced, so they run again
+ */
+function clearStepOutputs(project: Project, status: ProjectStatus): Partial<Project> {
+  const step = RUNNING_STATUSES.indexOf(status)
+  if (step === -1) return {}
+
+  const updates: Partial<Project> = {}
+  if (step === 0) {
+    updates.script = undefined
+    updates.scenes = []
+  } else if (step === 1) {
+    updates.scenes = project.scenes.map((scene) => ({ ...scene, imageUrl: undefined }))
+  }
+  if (step <= 2) {
+    updates.audioUrl = undefined
+    updates.scenes = (updates.scenes ?? project.scenes).map((scene) => ({ ...scene, audioUrl: undefined }))
+  }
+  if (step <= 3) updates.captions = undefined
+  updates.videoUrl = undefined
+  return updates
+}
+
+// Once a migration has failed, leave the saved projects untouched until recovery
+const projectStorage = createJSONStorage(() => ({
+  getItem: (name) => localStorage.getItem(name),
+  setItem: (name, value) => {
+    if (!useRecoveryStore.getState().recovery) localStorage.setItem(name, value)
+  },
+  removeItem: (name) => localStorage.removeItem(name)
+}))
 
 interface ProjectState {
   projects: Project[]
   currentProject: Project | null
+  // A re-render recording outside the render queue, which tracks pipeline runs itself
   isGenerating: boolean
-  progress: GenerationProgress | null
 
   // Actions
-  createProject: (name: string, topic: string, sceneCount: number, duration: number, aspectRatio: AspectRatio, captionSettings?: CaptionSettings) => Project
+  createProject: (name: string, topic: string, sceneCount: number, duration: number, aspectRatio: AspectRatio, captionSettings?: CaptionSettings, voiceSettings?: VoiceSettings, speakers?: Speaker[]) => Project
+  addProject: (project: Project) => void
   updateProject: (id: string, updates: Partial<Project>) => void
   deleteProject: (id: string) => void
   setCurrentProject: (project: Project | null) => void
   setScenes: (projectId: string, scenes: Scene[]) => void
   updateScene: (projectId: string, sceneId: string, updates: Partial<Scene>) => void
-  setAudio: (projectId: string, audioBlob: Blob) => void
+  setSceneImage: (projectId: string, sceneId: string, imageBlob: Blob) => Promise<void>
+  setSceneAudio: (projectId: string, sceneId: string, audioBlob: Blob, duration: number) => Promise<void>
+  setAudio: (projectId: string, audioBlob: Blob) => Promise<void>
   setCaptions: (projectId: string, captions: Caption[]) => void
-  setVideo: (projectId: string, videoBlob: Blob) => void
+  setVideo: (projectId: string, videoBlob: Blob) => Promise<void>
   setProjectStatus: (projectId: string, status: ProjectStatus) => void
+  markInterruptedProjects: () => void
+  resumeProject: (projectId: string) => void
+  resetInterruptedStep: (projectId: string) => Promise<void>
+  revoiceProject: (projectId: string, voiceSettings: VoiceSettings, speakers?: Speaker[]) => void
   setIsGenerating: (value: boolean) => void
-  setProgress: (progress: GenerationProgress | null) => void
 }
 
 export const useProjectStore = create<ProjectState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       projects: [],
       currentProject: null,
       isGenerating: false,
-      progress: null,
 
-      createProject: (name, topic, sceneCount, duration, aspectRatio, captionSettings = DEFAULT_CAPTION_SETTINGS) => {
+      createProject: (name, topic, sceneCount, duration, aspectRatio, captionSettings = DEFAULT_CAPTION_SETTINGS, voiceSettings = DEFAULT_VOICE_SETTINGS, speakers) => {
         const project: Project = {
           id: `project-${Date.now()}`,
           name,
@@ -45,11 +110,11 @@ export const useProjectStore = create<ProjectState>()(
           aspectRatio,
           script: undefined,
           scenes: [],
-          audioBlob: undefined,
           audioUrl: undefined,
           captions: undefined,
           captionSettings,
-          videoBlob: undefined,
+          voiceSettings,
+          speakers,
           videoUrl: undefined,
           status: 'draft',
           createdAt: new Date(),
@@ -64,6 +129,12 @@ export const useProjectStore = create<ProjectState>()(
         return project
       },
 
+      addProject: (project) => {
+        set((state) => ({
+          projects: [project, ...state.projects]
+        }))
+      },
+
       updateProject: (id, updates) => {
         set((state) => ({
           projects: state.projects.map((p) =>
@@ -77,6 +148,9 @@ export const useProjectStore = create<ProjectState>()(
       },
 
       deleteProject: (id) => {
+        projectAssetService
+          .deleteProject(id)
+          .catch((error) => console.error('Failed to delete project assets:', error))
         set((state) => ({
           projects: state.projects.filter((p) => p.id !== id),
           currentProject: state.currentProject?.id === id ? null : state.currentProject
@@ -120,20 +194,43 @@ export const useProjectStore = create<ProjectState>()(
         })
       },
 
-      setAudio: (projectId, audioBlob) => {
-        const audioUrl = URL.createObjectURL(audioBlob)
+      setSceneImage: async (projectId, sceneId, imageBlob) => {
+        const imageUrl = await projectAssetService.saveBlob(
+          projectId,
+          ASSET_NAMES.sceneImage(sceneId),
+          imageBlob
+        )
+        get().updateScene(projectId, sceneId, { imageUrl })
+      },
+
+      // The measured length replaces the word-count estimate, so image cuts follow the narration
+      setSceneAudio: async (projectId, sceneId, audioBlob, duration) => {
+        const audioUrl = await projectAssetService.saveBlob(
+          projectId,
+          ASSET_NAMES.sceneAudio(sceneId),
+          audioBlob
+        )
+        get().updateScene(projectId, sceneId, { audioUrl, duration })
+      },
+
+      setAudio: async (projectId, audioBlob) => {
+        const audioUrl = await projectAssetService.saveBlob(projectId, ASSET_NAMES.audio, audioBlob)
         set((state) => ({
           projects: state.projects.map((p) =>
-            p.id === projectId ? { ...p, audioBlob, audioUrl, updatedAt: new Date() } : p
+            p.id === projectId ? { ...p, audioUrl, updatedAt: new Date() } : p
           ),
           currentProject:
             state.currentProject?.id === projectId
-              ? { ...state.currentProject, audioBlob, audioUrl, updatedAt: new Date() }
+              ? { ...state.currentProject, audioUrl, updatedAt: new Date() }
               : state.currentProject
         }))
       },
 
       setCaptions: (projectId, captions) => {
+        // The store keeps its copy; the file keeps the project folder complete
+        projectAssetService
+          .saveJson(projectId, ASSET_NAMES.captions, captions)
+          .catch((error) => console.error('Failed to save captions:', error))
         set((state) => ({
           projects: state.projects.map((p) =>
             p.id === projectId ? { ...p, captions, updatedAt: new Date() } : p
@@ -145,15 +242,15 @@ export const useProjectStore = create<ProjectState>()(
         }))
       },
 
-      setVideo: (projectId, videoBlob) => {
-        const videoUrl = URL.createObjectURL(videoBlob)
+      setVideo: async (projectId, videoBlob) => {
+        const videoUrl = await projectAssetService.saveBlob(projectId, ASSET_NAMES.video, videoBlob)
         set((state) => ({
           projects: state.projects.map((p) =>
-            p.id === projectId ? { ...p, videoBlob, videoUrl, updatedAt: new Date() } : p
+            p.id === projectId ? { ...p, videoUrl, updatedAt: new Date() } : p
           ),
           currentProject:
             state.currentProject?.id === projectId
-              ? { ...state.currentProject, videoBlob, videoUrl, updatedAt: new Date() }
+              ? { ...state.currentProject, videoUrl, updatedAt: new Date() }
               : state.currentProject
         }))
       },
@@ -170,24 +267,76 @@ export const useProjectStore = create<ProjectState>()(
         }))
       },
 
-      setIsGenerating: (value) => {
-        set({ isGenerating: value })
+      markInterruptedProjects: () => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            RUNNING_STATUSES.includes(p.status)
+              ? { ...p, status: 'interrupted', interruptedStatus: p.status }
+              : p
+          )
+        }))
+      },
+
+      // Back to draft; the pipeline skips every step whose output was saved
+      resumeProject: (projectId) => {
+        get().updateProject(projectId, { status: 'draft', interruptedStatus: undefined })
+      },
+
+      resetInterruptedStep: async (projectId) => {
+        const project = get().projects.find((p) => p.id === projectId)
+        if (!project?.interruptedStatus) return
+
+        if (project.interruptedStatus === 'generating_script') {
+          // Nothing will point at the old scenes' files, but a bundle export would
+          // still pack them. Deleted before resuming, so the new run's files survive
+          await projectAssetService
+            .deleteProject(projectId)
+            .catch((error) => console.error('Failed to delete project assets:', error))
+        }
+        get().updateProject(projectId, clearStepOutputs(project, project.interruptedStatus))
+        get().resumeProject(projectId)
       },
 
-      setProgress: (progress) => {
-        set({ progress })
+      // Drops the voiceover and everything made from it; the script and images are kept
+      revoiceProject: (projectId, voiceSettings, speakers) => {
+        const project = get().projects.find((p) => p.id === projectId)
+        if (!project) return
+
+        get().updateProject(projectId, {
+          ...clearStepOutputs(project, 'generating_audio'),
+          voiceSettings,
+          speakers: speakers ?? project.speakers,
+          status: 'draft',
+          interruptedStatus: undefined
+        })
+      },
+
+      setIsGenerating: (value) => {
+        set({ isGenerating: value })
       }
     }),
     {
-      name: 'autovid-projects',
+      name: PROJECTS_STORE_NAME,
+      storage: projectStorage,
+      version: PROJECTS_SCHEMA_VERSION,
+      migrate: (persisted, version) =>
+        migrateProjects(persisted, version) as unknown as ProjectState,
+      onRehydrateStorage: () => (state, error) => {
+        if (!error) {
+          state?.markInterruptedProjects()
+          return
+        }
+        const fromVersion = getPersistedVersion()
+        const backupKey = fromVersion !== null ? getBackupKey(fromVersion) : null
+        useRecoveryStore.getState().setRecovery({
+          message: error instanceof Error ? error.message : String(error),
+          fromVersion,
+          backupKey: backupKey && localStorage.getItem(backupKey) !== null ? backupKey : null
+        })
+      },
+      // Assets live on disk, so projects persist as-is
       partialize: (state) => ({
-        projects: state.projects.map((p) => ({
-          ...p,
-          audioBlob: undefined,
-          audioUrl: undefined,
-          videoBlob: undefined,
-          videoUrl: undefined
-        }))
+        projects: state.projects
       })
     }
   )
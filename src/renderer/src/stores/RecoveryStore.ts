@@ -0,0 +1,28 @@
+/**
+ * Recovery Store - Holds a failed project store migration for the recovery screen
+ *
+ * Kept apart from ProjectStore so reporting the failure never writes over the
+ * saved projects.
+ */
+import { create } from 'zustand'
+
+export interface StoreRecovery {
+  message: string
+  fromVersion: number | null
+  backupKey: string | null
+}
+
+interface RecoveryState {
+  recovery: StoreRecovery | null
+
+  // Actions
+  setRecovery: (recovery: StoreRecovery | null) => void
+}
+
+export const useRecoveryStore = create<RecoveryState>()((set) => ({
+  recovery: null,
+
+  setRecovery: (recovery) => {
+    set({ recovery })
+  }
+}))
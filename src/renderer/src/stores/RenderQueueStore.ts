@@ -0,0 +1,77 @@
+/**
+ * Render Queue Store - Projects waiting for or running the generation pipeline
+ *
+ * Written by the RenderQueue service. Kept apart from ProjectStore because
+ * none of it is saved: a queue cut short by closing the app shows up as
+ * interrupted projects instead.
+ */
+import { create } from 'zustand'
+import type { GenerationProgress } from '../types'
+import type { FailedChunk } from '../services/TTSService'
+
+export interface QueueJob {
+  projectId: string
+  state: 'queued' | 'running'
+  progress: GenerationProgress | null
+  paused: boolean
+}
+
+export interface RunError {
+  message: string
+  // Set when voiceover chunks are what failed, so just those can be retried
+  failedChunks?: FailedChunk[]
+}
+
+interface RenderQueueState {
+  // In queue order; running jobs keep their place until they finish
+  jobs: QueueJob[]
+  // Why each project's last run failed, until it is queued again
+  errors: Record<string, RunError>
+
+  // Actions
+  addJob: (projectId: string) => void
+  updateJob: (projectId: string, updates: Partial<QueueJob>) => void
+  removeJob: (projectId: string) => void
+  setError: (projectId: string, error: RunError | null) => void
+}
+
+export const useRenderQueueStore = create<RenderQueueState>()((set) => ({
+  jobs: [],
+  errors: {},
+
+  addJob: (projectId) => {
+    set((state) => ({
+      jobs: [...state.jobs, { projectId, state: 'queued', progress: null, paused: false }]
+    }))
+  },
+
+  updateJob: (projectId, updates) => {
+    set((state) => ({
+      jobs: state.jobs.map((job) => (job.projectId === projectId ? { ...job, ...updates } : job))
+    }))
+  },
+
+  removeJob: (projectId) => {
+    set((state) => ({
+      jobs: state.jobs.filter((job) => job.projectId !== projectId)
+    }))
+  },
+
+  setError: (projectId, error) => {
+    set((state) => {
+      const errors = { ...state.errors }
+      if (error === null) delete errors[projectId]
+      else errors[projectId] = error
+      return { errors }
+    })
+  }
+}))
+
+/**
+ * 1-based place among the jobs still waiting, or null once running or not queued
+ */
+export function getQueuePosition(jobs: QueueJob[], projectId: string): number | null {
+  const waiting = jobs.filter((job) => job.state === 'queued')
+  const index = waiting.findIndex((job) => job.projectId === projectId)
+  return index === -1 ? null : index + 1
+}
@@ -0,0 +1,47 @@
+/**
+ * Update Store - Auto-updater status pushed from the main process
+ */
+import { create } from 'zustand'
+import type { UpdateStatus } from '../types'
+
+interface UpdateState {
+  status: UpdateStatus
+  dismissed: boolean
+  releaseNotesOpen: boolean
+
+  // Actions
+  setStatus: (status: UpdateStatus) => void
+  dismiss: () => void
+  openReleaseNotes: () => void
+  closeReleaseNotes: () => void
+}
+
+function getStatusKey(status: UpdateStatus): string {
+  return status.state === 'downloaded' ? `downloaded:${status.install}` : status.state
+}
+
+export const useUpdateStore = create<UpdateState>()((set) => ({
+  status: { state: 'idle' },
+  dismissed: false,
+  releaseNotesOpen: false,
+
+  setStatus: (status) => {
+    // Re-show the banner whenever the updater moves to a new state
+    set((state) => ({
+      status,
+      dismissed: getStatusKey(state.status) === getStatusKey(status) ? state.dismissed : false
+    }))
+  },
+
+  dismiss: () => {
+    set({ dismissed: true })
+  },
+
+  openReleaseNotes: () => {
+    set({ releaseNotesOpen: true })
+  },
+
+  closeReleaseNotes: () => {
+    set({ releaseNotesOpen: false })
+  }
+}))
@@ -0,0 +1,134 @@
+/**
+ * Project Migrations - Versioned schema for the persisted project store
+ *
+ * Bump PROJECTS_SCHEMA_VERSION whenever Project/Scene/Caption change shape and
+ * add a migration keyed by the version it produces. Migrations run in order
+ * from the saved version, after a raw backup of the saved state is taken.
+ */
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_VOICE_SETTINGS } from '../types'
+
+export const PROJECTS_STORE_NAME = 'autovid-projects'
+export const PROJECTS_SCHEMA_VERSION = 4
+
+export type PersistedProjects = { projects: Record<string, unknown>[] }
+type Migration = (state: PersistedProjects) => PersistedProjects
+
+const migrations: Record<number, Migration> = {
+  // v1: stores written before versioning may lack fields added since
+  1: (state) => ({
+    projects: state.projects.map((project) => ({
+      ...project,
+      scenes: Array.isArray(project.scenes) ? project.scenes : [],
+      aspectRatio: project.aspectRatio ?? '16:9',
+      captionSettings: { ...DEFAULT_CAPTION_SETTINGS, ...(project.captionSettings as object) },
+      status: project.status ?? 'draft'
+    }))
+  }),
+
+  // v2: assets moved to disk; in-memory blobs and blob: URLs never survived a restart
+  2: (state) => ({
+    projects: state.projects.map((project) => {
+      const scenes = (project.scenes as Record<string, unknown>[]).map((scene) => ({
+        ...scene,
+        imageBlob: undefined,
+        imageUrl: isBlobUrl(scene.imageUrl) ? undefined : scene.imageUrl
+      }))
+      const audioUrl = isBlobUrl(project.audioUrl) ? undefined : project.audioUrl
+      const videoUrl = isBlobUrl(project.videoUrl) ? undefined : project.videoUrl
+
+      // Undefined keys are dropped when the migrated state is written back
+      return {
+        ...project,
+        scenes,
+        audioBlob: undefined,
+        audioUrl,
+        videoBlob: undefined,
+        videoUrl,
+        // Lost renders have to be regenerated; draft resumes the pipeline when opened
+        status: project.status === 'completed' && !videoUrl ? 'draft' : project.status
+      }
+    })
+  }),
+
+  // v3: voice, speed and format are chosen per project; every earlier project used the defaults
+  3: (state) => ({
+    projects: state.projects.map((project) => ({
+      ...project,
+      voiceSettings: { ...DEFAULT_VOICE_SETTINGS, ...(project.voiceSettings as object) }
+    }))
+  }),
+
+  // v4: captions can label dialogue speakers
+  4: (state) => ({
+    projects: state.projects.map((project) => ({
+      ...project,
+      captionSettings: { ...DEFAULT_CAPTION_SETTINGS, ...(project.captionSettings as object) }
+    }))
+  })
+}
+
+function isBlobUrl(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('blob:')
+}
+
+export function getBackupKey(version: number): string {
+  return `${PROJECTS_STORE_NAME}-backup-v${version}`
+}
+
+export function getPersistedVersion(): number | null {
+  try {
+    const raw = localStorage.getItem(PROJECTS_STORE_NAME)
+    const version = raw ? JSON.parse(raw).version : null
+    return typeof version === 'number' ? version : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keep the saved state exactly as it was before any migration touches it
+ */
+function backupPersistedState(version: number): void {
+  const raw = localStorage.getItem(PROJECTS_STORE_NAME)
+  if (raw !== null) {
+    localStorage.setItem(getBackupKey(version), raw)
+  }
+}
+
+/**
+ * Bring projects saved under an older schema up to the current one
+ */
+export function runMigrations(state: PersistedProjects, fromVersion: number): PersistedProjects {
+  if (fromVersion > PROJECTS_SCHEMA_VERSION) {
+    throw new Error(
+      `Projects were saved by a newer version of AutoVid (schema v${fromVersion}, this build reads v${PROJECTS_SCHEMA_VERSION})`
+    )
+  }
+
+  let migrated = state
+  for (let version = fromVersion + 1; version <= PROJECTS_SCHEMA_VERSION; version++) {
+    const migration = migrations[version]
+    if (!migration) {
+      throw new Error(`No migration to schema v${version}`)
+    }
+    try {
+      migrated = migration(migrated)
+    } catch (error) {
+      throw new Error(`Migration to schema v${version} failed: ${(error as Error).message}`)
+    }
+  }
+  return migrated
+}
+
+export function migrateProjects(persisted: unknown, fromVersion: number): PersistedProjects {
+  const state = persisted as PersistedProjects | null
+  if (!state || !Array.isArray(state.projects)) {
+    throw new Error(`Saved projects are not in the expected format (schema v${fromVersion})`)
+  }
+
+  // Newer saves are left alone, so there is nothing to back up
+  if (fromVersion <= PROJECTS_SCHEMA_VERSION) {
+    backupPersistedState(fromVersion)
+  }
+  return runMigrations(state, fromVersion)
+}
@@ -4,7 +4,11 @@
 
 export type CaptionTemplate = 'karaoke' | 'word-by-word' | 'sentence' | 'minimal'
 export type CaptionPosition = 'top' | 'center' | 'bottom'
+// How captions show who is speaking in a dialogue; single-narrator videos ignore it
+export type SpeakerLabelStyle = 'off' | 'name' | 'color' | 'both'
 export type AspectRatio = '16:9' | '9:16' | '1:1'
+// What voice clips are downloaded from the TTS service as; the saved voiceover is always WAV
+export type VoiceFormat = 'mp3' | 'wav' | 'flac' | 'opus'
 
 export interface CaptionSettings {
   template: CaptionTemplate
@@ -13,6 +17,32 @@ export interface CaptionSettings {
   fontFamily: string
   textColor: string
   backgroundColor: string
+  speakerLabels: SpeakerLabelStyle
+}
+
+export interface VoiceSettings {
+  // One of TTSService.getVoices()
+  voice: string
+  // Speaking rate; 1 is normal
+  speed: number
+  // Download format of the voice clips, not of the saved voiceover
+  format: VoiceFormat
+}
+
+export interface Speaker {
+  id: string
+  name: string
+  // One of TTSService.getVoices()
+  voice: string
+  // Caption colour when speaker labels are on
+  color: string
+}
+
+export interface DialogueLine {
+  speakerId: string
+  text: string
+  // Seconds into the scene's voiceover, once it is generated
+  start?: number
 }
 
 export interface WordTiming {
@@ -26,9 +56,14 @@ export interface Scene {
   index: number
   text: string
   imagePrompt: string
+  // Seconds; estimated from the word count until the scene's voiceover is measured
   duration: number
-  imageBlob?: Blob
+  // autovid-asset:// URL of the image in the project folder
   imageUrl?: string
+  // This scene's part of the voiceover, also an asset URL
+  audioUrl?: string
+  // Dialogue scripts only: the scene's text line by line, each voiced by its speaker
+  lines?: DialogueLine[]
 }
 
 export interface Caption {
@@ -37,6 +72,8 @@ export interface Caption {
   endTime: number
   text: string
   words?: WordTiming[]
+  // Dialogue scripts only: who says this caption
+  speakerId?: string
 }
 
 export type ProjectStatus =
@@ -48,6 +85,10 @@ export type ProjectStatus =
   | 'composing_video'
   | 'completed'
   | 'error'
+  // The app closed while the pipeline was running
+  | 'interrupted'
+  // Stopped from the editor; resumes the same way as an interrupted run
+  | 'cancelled'
 
 export interface Project {
   id: string
@@ -58,13 +99,17 @@ export interface Project {
   aspectRatio: AspectRatio
   script?: string
   scenes: Scene[]
-  audioBlob?: Blob
+  // Asset URLs into the project folder on disk
   audioUrl?: string
   captions?: Caption[]
   captionSettings: CaptionSettings
-  videoBlob?: Blob
+  voiceSettings: VoiceSettings
+  // Two or more makes the script a dialogue; otherwise one narrator reads it
+  speakers?: Speaker[]
   videoUrl?: string
   status: ProjectStatus
+  // The running status an interrupted or cancelled project was left in, i.e. the step it stopped during
+  interruptedStatus?: ProjectStatus
   createdAt: Date
   updatedAt: Date
 }
@@ -88,9 +133,34 @@ export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
   fontSize: 'large',
   fontFamily: 'Inter',
   textColor: '#ffffff',
-  backgroundColor: 'rgba(0, 0, 0, 0.8)'
+  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  speakerLabels: 'both'
+}
+
+export const SPEAKER_LABEL_STYLES: { id: SpeakerLabelStyle; name: string }[] = [
+  { id: 'both', name: 'Name tag and colour' },
+  { id: 'name', name: 'Name tag' },
+  { id: 'color', name: 'Colour' },
+  { id: 'off', name: 'Off' }
+]
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voice: 'nova',
+  speed: 1,
+  format: 'mp3'
 }
 
+// Two hosts for interview and explainer formats
+export const DEFAULT_SPEAKERS: Speaker[] = [
+  { id: 'host-1', name: 'Alex', voice: 'nova', color: '#fbbf24' },
+  { id: 'host-2', name: 'Sam', voice: 'onyx', color: '#38bdf8' }
+]
+
+// Speaking rates offered; the TTS service accepts 0.25 to 4
+export const VOICE_SPEED_RANGE = { min: 0.5, max: 2, step: 0.05 }
+
+export const VOICE_FORMATS: VoiceFormat[] = ['mp3', 'wav', 'flac', 'opus']
+
 // Available fonts
 export const CAPTION_FONTS = [
   'Inter',
@@ -106,3 +176,40 @@ export const ASPECT_RATIO_DIMS: Record<AspectRatio, { width: number; height: num
   '9:16': { width: 1080, height: 1920 },
   '1:1': { width: 1080, height: 1080 }
 }
+
+// Auto-updater types shared with the main process
+export type {
+  UpdateStatus,
+  UpdateChannel,
+  UpdateSettings,
+  UpdateCheckRecord,
+  ReleaseNotes,
+  InstallPolicy,
+  InstallState,
+  UpdateErrorKind
+} from '../../../preload/index.d'
+
+// HTTP gateway and API key types shared with the main process
+export type {
+  GatewayBody,
+  GatewayFormField,
+  ApiProvider,
+  ApiCredentials,
+  ApiKeyStatus,
+  ConnectionTarget,
+  ConnectionTestResult
+} from '../../../preload/index.d'
+
+// Pipeline preferences stored by the main process
+export type { GenerationSettings } from '../../../preload/index.d'
+
+// Automation API types shared with the main process
+export type {
+  AutomationArtifact,
+  AutomationArtifactData,
+  AutomationCommand,
+  AutomationProject,
+  AutomationResult,
+  AutomationStatus,
+  ProjectSpec
+} from '../../../preload/index.d'